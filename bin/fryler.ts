@@ -10,6 +10,10 @@
  */
 
 import { parseArgs } from "util";
+import type { Task, UpdateTaskInput } from "@/db/tasks.ts";
+import type { CostGrouping } from "@/db/runs.ts";
+import type { Memory } from "@/db/memories.ts";
+import type { Session, SessionKind } from "@/db/sessions.ts";
 
 process.title = "fryler";
 
@@ -23,6 +27,24 @@ const { values, positionals } = parseArgs({
     session: { type: "string", short: "s" },
     priority: { type: "string", short: "p" },
     scheduled: { type: "string" },
+    every: { type: "string" },
+    after: { type: "string" },
+    timeout: { type: "string" },
+    title: { type: "string" },
+    description: { type: "string" },
+    cwd: { type: "string" },
+    category: { type: "string" },
+    source: { type: "string" },
+    limit: { type: "string" },
+    all: { type: "boolean", default: false },
+    pinned: { type: "boolean", default: false },
+    undo: { type: "boolean", default: false },
+    "dry-run": { type: "boolean", default: false },
+    kind: { type: "string" },
+    tag: { type: "string" },
+    "older-than": { type: "string" },
+    since: { type: "string" },
+    by: { type: "string" },
     model: { type: "string", short: "m" },
     "max-turns": { type: "string" },
     verbose: { type: "boolean", short: "v", default: false },
@@ -119,7 +141,7 @@ async function hostDispatch(cmd: string): Promise<void> {
         process.exit(1);
       }
 
-      const interactive = isInteractiveCommand(cmd);
+      const interactive = isInteractiveCommand(cmd, positionals[1]);
       const exitCode = await proxyToContainer(
         config.container_name,
         process.argv.slice(2),
@@ -159,7 +181,7 @@ async function containerDispatch(cmd: string): Promise<void> {
       await cmdLogs();
       break;
     case "sessions":
-      await cmdSessions();
+      await cmdSessions(positionals.slice(1));
       break;
     case "resume":
       await cmdResume(positionals[1]);
@@ -170,6 +192,12 @@ async function containerDispatch(cmd: string): Promise<void> {
     case "heartbeat":
       await cmdHeartbeat();
       break;
+    case "cost":
+      await cmdCost();
+      break;
+    case "memory":
+      await cmdMemory(positionals.slice(1));
+      break;
     case "login":
       await cmdLogin();
       break;
@@ -198,12 +226,38 @@ function showHelp(): void {
   console.log("  chat                 Interactive REPL session");
   console.log("  voice [--voice <n>]  Voice chat (responses spoken aloud, default: Zarvox)");
   console.log("  logs [-f] [-n N]     Show daemon logs");
-  console.log("  sessions             List conversation sessions");
+  console.log("  sessions             List conversation sessions (--kind, --tag, --all)");
+  console.log("  sessions show <id>   Print a session's transcript");
+  console.log("  sessions fork <id>   Branch a session into a new one in the REPL (/fork in chat)");
+  console.log("  sessions rename <id> <title>  Retitle a session");
+  console.log("  sessions tag <id> <tag>       Tag a session (--undo removes the tag)");
+  console.log("  sessions archive <id> Hide a session from listings (--undo restores it)");
+  console.log("  sessions delete <id> Delete a session and its transcript");
+  console.log("  sessions prune --older-than <dur>  Delete sessions idle that long (--dry-run)");
   console.log("  resume <session-id>  Resume a conversation session");
   console.log("  task add <title>     Create a new task");
   console.log("  task list [status]   List tasks");
-  console.log("  task cancel <id>     Cancel a pending task");
+  console.log("  task show <id>       Show a task's full details and dependency graph");
+  console.log(
+    "  task edit <id>       Edit a pending task (--title, --description, -p, --scheduled, --cwd, --timeout)",
+  );
+  console.log("  task cancel <id>     Cancel a pending or running task");
+  console.log("  task retry <id>      Re-queue a failed task");
+  console.log("  task pause <id>      Pause a pending task (or recurring series)");
+  console.log("  task resume <id>     Resume a paused task");
+  console.log("  task stop <id>       Stop a recurring series");
   console.log("  heartbeat            Trigger a heartbeat cycle");
+  console.log("  cost [--since] [--by] Report Claude spend");
+  console.log("  memory search <query> Full-text search of memories (--category, --source)");
+  console.log("  memory list          List memories (--category, --source, --pinned, --all)");
+  console.log("  memory show <id>     Show a memory and the versions it replaced");
+  console.log("  memory edit <id> [text] Change a memory's text and/or --category");
+  console.log("  memory forget <id>   Forget a memory (--undo brings it back)");
+  console.log("  memory pin <id>      Always inject a memory into prompts (--undo unpins)");
+  console.log("  memory sync          Reconcile hand edits to MEMORY.md with the database");
+  console.log(
+    "  memory consolidate   Merge redundant memories into summaries (--dry-run, --category)",
+  );
   console.log("  say [--voice <name>] <text>   Speak text aloud via macOS TTS");
   console.log("  login                Authenticate the Claude CLI");
   console.log("\nOptions:");
@@ -215,7 +269,34 @@ function showHelp(): void {
   console.log("  -n, --lines <N>      Number of log lines (default: 50)");
   console.log("  -p, --priority <N>   Task priority (1-5, default: 3)");
   console.log("  --scheduled <time>   Schedule task for later (ISO 8601)");
+  console.log('  --every <cron>       Repeat task on a cron schedule (e.g. "0 8 * * *")');
+  console.log("  --after <ids>        Task waits for these task ids (comma-separated)");
+  console.log(
+    '  --timeout <seconds>  Kill the task\'s Claude run after this long ("" clears it on edit)',
+  );
+  console.log("  --title <text>       New title (task edit)");
+  console.log("  --description <text> Task description (task add/edit)");
+  console.log('  --cwd <dir>          Working directory for the task ("" clears it on edit)');
   console.log("  --max-turns <N>      Max Claude turns for ask");
+  console.log("  --since <when>       Cost report start (e.g. 7d, 2025-03-01)");
+  console.log(
+    "  --by <group>         Cost report grouping: task|session|model|day (default: source)",
+  );
+  console.log("  --category <name>    Filter memories by category");
+  console.log("  --source <source>    Filter memories by source (e.g. repl, cli-ask, task-12)");
+  console.log("  --limit <N>          Max results for memory search/list (default: 20)");
+  console.log("  --pinned             Only pinned memories (memory list)");
+  console.log(
+    "  --all                Include forgotten, superseded and expired memories (memory list)",
+  );
+  console.log("                       or archived sessions (sessions list)");
+  console.log("  --undo               Reverse memory forget/pin, sessions tag/archive");
+  console.log(
+    "  --dry-run            Preview memory consolidate or sessions prune, change nothing",
+  );
+  console.log("  --kind <kind>        Filter sessions by kind: cli|chat|voice|heartbeat|api");
+  console.log("  --tag <tag>          Filter sessions by tag");
+  console.log("  --older-than <dur>   Age cutoff for sessions prune (e.g. 30d, 12w)");
   console.log("  -v, --verbose        Show log output in terminal");
 }
 
@@ -302,34 +383,27 @@ async function cmdAsk(args: string[]): Promise<void> {
   const { getDb } = await import("@/db/index.ts");
   const { ask } = await import("@/claude/client.ts");
   const { parseClaudeResponse } = await import("@/tasks/parser.ts");
-  const { createTask } = await import("@/db/tasks.ts");
-  const { createMemory } = await import("@/db/memories.ts");
-  const { appendMemory } = await import("@/memory/index.ts");
-  const { createSession, updateSession, listSessions } = await import("@/db/sessions.ts");
+  const { createTasksFromMarkers } = await import("@/tasks/create.ts");
+  const { storeMemory, reviseMemory, retractMemory } = await import("@/memory/index.ts");
+  const { createSession, getSession, updateSession, getLatestSession } =
+    await import("@/db/sessions.ts");
+  const { recordExchange } = await import("@/db/messages.ts");
 
   getDb();
 
   const opts: {
-    sessionId?: string;
-    continueSession?: boolean;
+    resumeSessionId?: string;
     model?: string;
     maxTurns?: number;
   } = {};
   if (values.model) opts.model = values.model as string;
   if (values["max-turns"]) opts.maxTurns = Number(values["max-turns"]);
 
-  // Session resolution: explicit > auto-resume > new
-  let isResuming = false;
+  // Session resolution: explicit > auto-resume (latest ask session) > new
   if (values.session) {
-    opts.sessionId = values.session as string;
+    opts.resumeSessionId = values.session as string;
   } else if (!values.new) {
-    // Auto-resume: find most recent CLI session
-    const sessions = listSessions();
-    const cliSession = sessions.find((s) => s.title?.startsWith("[cli] "));
-    if (cliSession) {
-      opts.continueSession = true;
-      isResuming = true;
-    }
+    opts.resumeSessionId = getLatestSession("cli")?.claude_session_id;
   }
 
   const response = await ask(prompt, opts);
@@ -339,20 +413,29 @@ async function cmdAsk(args: string[]): Promise<void> {
 
   // Track session automatically
   if (response.session_id) {
-    if (isResuming || opts.sessionId) {
-      updateSession(response.session_id);
-    } else {
-      createSession(response.session_id, `[cli] ${prompt.slice(0, 80)}`);
-    }
+    const session =
+      getSession(response.session_id) ??
+      createSession(response.session_id, prompt.slice(0, 80), "cli");
+    updateSession(response.session_id, session.message_count + 1);
+    recordExchange(session.id, { prompt, response: parsed.cleanText });
   }
 
   // Silently process markers
-  for (const task of parsed.tasks) {
-    createTask(task);
+  createTasksFromMarkers(parsed.tasks);
+  for (const update of parsed.memoryUpdates) {
+    await reviseMemory(update, update.content, "cli-ask", update.reason);
+  }
+  for (const forget of parsed.forgets) {
+    await retractMemory(forget, "cli-ask", forget.reason);
   }
   for (const mem of parsed.memories) {
-    createMemory(mem.category, mem.content, "cli-ask");
-    await appendMemory(mem.content);
+    await storeMemory(
+      mem.category,
+      mem.content,
+      "cli-ask",
+      { sessionId: response.session_id, prompt },
+      mem,
+    );
   }
   for (const say of parsed.says) {
     const { writeSayAction } = await import("@/outbox/index.ts");
@@ -368,20 +451,16 @@ async function cmdChat(): Promise<void> {
 
   const { getDb } = await import("@/db/index.ts");
   const { startRepl } = await import("@/repl/index.ts");
-  const { listSessions } = await import("@/db/sessions.ts");
+  const { getLatestSession } = await import("@/db/sessions.ts");
 
   getDb();
 
-  const opts: { sessionId?: string; autoResume?: boolean } = {};
+  const opts: { sessionId?: string } = {};
   if (values.session) {
     opts.sessionId = values.session as string;
   } else if (!values.new) {
-    // Auto-resume most recent chat session via --continue
-    const sessions = listSessions();
-    const chatSession = sessions.find((s) => s.title?.startsWith("[chat] "));
-    if (chatSession) {
-      opts.autoResume = true;
-    }
+    // Auto-resume the most recent chat session
+    opts.sessionId = getLatestSession("chat")?.claude_session_id;
   }
 
   await startRepl(opts);
@@ -395,7 +474,7 @@ async function cmdVoice(): Promise<void> {
 
   const { getDb } = await import("@/db/index.ts");
   const { startRepl } = await import("@/repl/index.ts");
-  const { listSessions } = await import("@/db/sessions.ts");
+  const { getLatestSession } = await import("@/db/sessions.ts");
 
   getDb();
 
@@ -403,14 +482,13 @@ async function cmdVoice(): Promise<void> {
 
   const opts: {
     sessionId?: string;
-    autoResume?: boolean;
     voice?: string;
     systemPrompt?: string;
-    sessionPrefix?: string;
+    kind?: SessionKind;
     model?: string;
   } = {
     voice,
-    sessionPrefix: "[voice]",
+    kind: "voice",
     model: (values.model as string) || "sonnet",
     systemPrompt:
       "You are Fryler, an autonomous AI daemon. Your responses will be spoken aloud via text-to-speech. Keep responses brief, conversational, and natural-sounding. Avoid markdown formatting, code blocks, bullet lists, and special characters — speak as you would in a real conversation.",
@@ -419,11 +497,7 @@ async function cmdVoice(): Promise<void> {
   if (values.session) {
     opts.sessionId = values.session as string;
   } else if (!values.new) {
-    const sessions = listSessions();
-    const voiceSession = sessions.find((s) => s.title?.startsWith("[voice] "));
-    if (voiceSession) {
-      opts.autoResume = true;
-    }
+    opts.sessionId = getLatestSession("voice")?.claude_session_id;
   }
 
   await startRepl(opts);
@@ -461,26 +535,210 @@ async function cmdLogs(dataDir?: string): Promise<void> {
   }
 }
 
-async function cmdSessions(): Promise<void> {
+async function cmdSessions(args: string[]): Promise<void> {
+  const subcommand = args[0] ?? "list";
+
   const { getDb } = await import("@/db/index.ts");
-  const { listSessions } = await import("@/db/sessions.ts");
+  const {
+    listSessions,
+    listSessionForks,
+    findSession,
+    getSessionById,
+    getSessionTags,
+    renameSession,
+    addSessionTag,
+    removeSessionTag,
+    setSessionArchived,
+    deleteSession,
+    pruneSessions,
+    isSessionKind,
+    SESSION_KINDS,
+  } = await import("@/db/sessions.ts");
+  const { listMessages } = await import("@/db/messages.ts");
 
   getDb();
 
-  const sessions = listSessions();
-  if (sessions.length === 0) {
-    console.log("No sessions found.");
-    return;
-  }
+  // Either the Claude session id or the row id shown in memory provenance
+  const sessionArg = (usage: string): Session => {
+    const ref = args[1];
+    if (!ref) {
+      console.error(`Usage: ${usage}`);
+      process.exit(1);
+    }
+    const session = findSession(ref);
+    if (!session) {
+      console.error(`Session ${ref} not found.`);
+      process.exit(1);
+    }
+    return session;
+  };
+  const label = (s: Session): string => `#${s.id} ${s.title ?? "(untitled)"}`;
+
+  switch (subcommand) {
+    case "list": {
+      const kind = values.kind as string | undefined;
+      if (kind !== undefined && !isSessionKind(kind)) {
+        console.error(`Invalid --kind "${kind}" (expected ${SESSION_KINDS.join(", ")})`);
+        process.exit(1);
+      }
+      const sessions = listSessions({
+        kind,
+        tag: values.tag as string | undefined,
+        includeArchived: values.all as boolean,
+      });
+      if (sessions.length === 0) {
+        console.log("No sessions found.");
+        return;
+      }
+
+      console.log("Sessions:\n");
+      for (const s of sessions) {
+        const tags = getSessionTags(s.id);
+        console.log(`  ${s.claude_session_id}`);
+        console.log(`    Title:    ${s.title ?? "(untitled)"}`);
+        console.log(`    ID:       #${s.id}${s.kind ? ` (${s.kind})` : ""}`);
+        if (tags.length > 0) console.log(`    Tags:     ${tags.join(", ")}`);
+        if (s.is_fork) {
+          const parent = s.parent_session_id ? `#${s.parent_session_id}` : "(deleted)";
+          console.log(`    Fork of:  ${parent}`);
+        }
+        if (s.archived_at) console.log(`    Archived: ${s.archived_at}`);
+        console.log(`    Messages: ${s.message_count}`);
+        console.log(`    Last:     ${s.last_active_at}`);
+        console.log();
+      }
+      break;
+    }
+    case "show": {
+      const session = sessionArg("fryler sessions show <session-id>");
+      const messages = listMessages(session.id);
+      const tags = getSessionTags(session.id);
+      console.log(session.title ?? "(untitled)");
+      console.log(`  Session:  ${session.claude_session_id}`);
+      if (session.kind) console.log(`  Kind:     ${session.kind}`);
+      if (tags.length > 0) console.log(`  Tags:     ${tags.join(", ")}`);
+      console.log(`  Started:  ${session.started_at}`);
+      console.log(`  Last:     ${session.last_active_at}`);
+      if (session.archived_at) console.log(`  Archived: ${session.archived_at}`);
+      if (session.is_fork) {
+        const parent = session.parent_session_id ? getSessionById(session.parent_session_id) : null;
+        console.log(`  Fork of:  ${parent ? label(parent) : "(deleted)"}`);
+      }
+      const forks = listSessionForks(session.id);
+      if (forks.length > 0) console.log(`  Forks:    ${forks.map(label).join(", ")}`);
+      console.log(`  Messages: ${messages.length}`);
 
-  console.log("Sessions:\n");
-  for (const s of sessions) {
-    const title = s.title ?? "(untitled)";
-    console.log(`  ${s.claude_session_id}`);
-    console.log(`    Title:    ${title}`);
-    console.log(`    Messages: ${s.message_count}`);
-    console.log(`    Last:     ${s.last_active_at}`);
-    console.log();
+      if (messages.length === 0) {
+        console.log("\nNo transcript recorded for this session.");
+        return;
+      }
+      for (const m of messages) {
+        if (m.role === "tool") {
+          console.log(`  [tool] ${m.content}`);
+          continue;
+        }
+        const who = m.role === "user" ? "You" : "Fryler";
+        console.log(`\n--- ${who} · ${m.created_at}`);
+        console.log(m.content);
+      }
+      break;
+    }
+    case "fork": {
+      const session = sessionArg("fryler sessions fork <session-id>");
+
+      if (!values.verbose) {
+        const { logger } = await import("@/logger/index.ts");
+        logger.setQuiet(true);
+      }
+      const { startRepl } = await import("@/repl/index.ts");
+      await startRepl({
+        forkFrom: session.claude_session_id,
+        kind: session.kind ?? undefined,
+        model: values.model as string | undefined,
+      });
+      break;
+    }
+    case "rename": {
+      const session = sessionArg("fryler sessions rename <session-id> <title>");
+      const title = args.slice(2).join(" ").trim();
+      if (!title) {
+        console.error("Usage: fryler sessions rename <session-id> <title>");
+        process.exit(1);
+      }
+      renameSession(session.id, title);
+      console.log(`Renamed session #${session.id}: ${title}`);
+      break;
+    }
+    case "tag": {
+      const session = sessionArg("fryler sessions tag <session-id> <tag> [--undo]");
+      const tag = args[2]?.trim();
+      if (!tag) {
+        console.error("Usage: fryler sessions tag <session-id> <tag> [--undo]");
+        process.exit(1);
+      }
+      if (values.undo) {
+        if (!removeSessionTag(session.id, tag)) {
+          console.error(`Session #${session.id} is not tagged "${tag}".`);
+          process.exit(1);
+        }
+        console.log(`Removed tag "${tag}" from ${label(session)}`);
+      } else {
+        addSessionTag(session.id, tag);
+        console.log(`Tagged ${label(session)}: ${getSessionTags(session.id).join(", ")}`);
+      }
+      break;
+    }
+    case "archive": {
+      const session = sessionArg("fryler sessions archive <session-id> [--undo]");
+      const archived = !values.undo;
+      setSessionArchived(session.id, archived);
+      console.log(
+        archived
+          ? `Archived ${label(session)}\nUndo with: fryler sessions archive ${session.id} --undo`
+          : `Unarchived ${label(session)}`,
+      );
+      break;
+    }
+    case "delete": {
+      const session = sessionArg("fryler sessions delete <session-id>");
+      deleteSession(session.id);
+      console.log(`Deleted ${label(session)}`);
+      break;
+    }
+    case "prune": {
+      const olderThan = values["older-than"] as string | undefined;
+      if (!olderThan) {
+        console.error("Usage: fryler sessions prune --older-than <duration> [--dry-run]");
+        process.exit(1);
+      }
+      const { parseDuration, toSqliteDatetime } = await import("@/time/index.ts");
+      let cutoff: string;
+      try {
+        cutoff = toSqliteDatetime(new Date(Date.now() - parseDuration(olderThan)));
+      } catch (err) {
+        console.error(err instanceof Error ? err.message : String(err));
+        process.exit(1);
+      }
+
+      const stale = values["dry-run"]
+        ? listSessions({ includeArchived: true, inactiveSince: cutoff })
+        : pruneSessions(cutoff);
+      if (stale.length === 0) {
+        console.log(`No sessions inactive for more than ${olderThan}.`);
+        return;
+      }
+      console.log(
+        values["dry-run"]
+          ? `Would delete ${stale.length} session(s):`
+          : `Deleted ${stale.length} session(s):`,
+      );
+      for (const s of stale) console.log(`  ${label(s)} (last active ${s.last_active_at})`);
+      break;
+    }
+    default:
+      console.error(`Unknown sessions subcommand: ${subcommand}`);
+      console.error("Usage: fryler sessions <list|show|fork|rename|tag|archive|delete|prune>");
+      process.exit(1);
   }
 }
 
@@ -506,12 +764,25 @@ async function cmdTask(args: string[]): Promise<void> {
   const subcommand = args[0];
 
   if (!subcommand) {
-    console.error("Usage: fryler task <add|list|cancel>");
+    console.error("Usage: fryler task <add|list|show|edit|cancel|retry|pause|resume|stop>");
     process.exit(1);
   }
 
   const { getDb } = await import("@/db/index.ts");
-  const { createTask, listTasks, cancelTask } = await import("@/db/tasks.ts");
+  const {
+    createTask,
+    updateTask,
+    listTasks,
+    cancelTask,
+    requestTaskCancel,
+    getTask,
+    setTaskPaused,
+    stopTaskRecurrence,
+    retryTask,
+    addTaskDependency,
+    getTaskDependencies,
+    getTaskDependents,
+  } = await import("@/db/tasks.ts");
 
   getDb();
 
@@ -524,12 +795,65 @@ async function cmdTask(args: string[]): Promise<void> {
       }
       const priority = values.priority ? Number(values.priority) : 3;
       const scheduled_at = (values.scheduled as string) ?? null;
-      const task = createTask({ title, priority, scheduled_at });
+      const recurrence = (values.every as string) ?? null;
+      if (recurrence) {
+        const { nextOccurrence } = await import("@/tasks/recurrence.ts");
+        try {
+          nextOccurrence(recurrence);
+        } catch (err) {
+          console.error(err instanceof Error ? err.message : String(err));
+          process.exit(1);
+        }
+      }
+      const after = values.after
+        ? String(values.after)
+            .split(",")
+            .map((id) => Number(id.trim()))
+        : [];
+      for (const id of after) {
+        if (!id || isNaN(id) || !getTask(id)) {
+          console.error(`--after: no task with id ${id}`);
+          process.exit(1);
+        }
+      }
+      const timeout_seconds = values.timeout ? Number(values.timeout) : null;
+      if (timeout_seconds !== null && !(timeout_seconds > 0)) {
+        console.error("--timeout must be a positive number of seconds");
+        process.exit(1);
+      }
+      // A dependency that can't be added leaves no half-wired task behind
+      let task: Task;
+      try {
+        task = getDb().transaction(() => {
+          const created = createTask({
+            title,
+            description: (values.description as string) ?? "",
+            priority,
+            scheduled_at,
+            cwd: (values.cwd as string) || null,
+            recurrence,
+            timeout_seconds,
+          });
+          for (const id of after) {
+            addTaskDependency(created.id, id);
+          }
+          return created;
+        })();
+      } catch (err) {
+        console.error(err instanceof Error ? err.message : String(err));
+        process.exit(1);
+      }
       console.log(`Created task #${task.id}: ${task.title} (priority: ${task.priority})`);
+      if (after.length > 0) {
+        console.log(`  Waits for: ${after.map((id) => `#${id}`).join(", ")}`);
+      }
+      if (task.recurrence) {
+        console.log(`  Repeats: ${task.recurrence} (next run: ${task.scheduled_at})`);
+      }
       break;
     }
     case "list": {
-      const status = args[1] as "pending" | "active" | "completed" | "failed" | undefined;
+      const status = args[1] as Task["status"] | undefined;
       const tasks = listTasks(status);
       if (tasks.length === 0) {
         console.log(status ? `No ${status} tasks.` : "No tasks.");
@@ -537,29 +861,221 @@ async function cmdTask(args: string[]): Promise<void> {
       }
       console.log("Tasks:\n");
       for (const t of tasks) {
-        const sched = t.scheduled_at ? ` (scheduled: ${t.scheduled_at})` : "";
-        console.log(`  #${t.id} [${t.status}] ${t.title} (p${t.priority})${sched}`);
+        let sched = "";
+        if (t.recurrence) {
+          const next = t.status === "pending" ? `, next: ${t.scheduled_at ?? "now"}` : "";
+          sched = ` (every "${t.recurrence}"${next})`;
+        } else if (t.scheduled_at) {
+          sched = ` (scheduled: ${t.scheduled_at})`;
+        }
+        if (t.status === "pending" && t.next_attempt_at) {
+          sched += ` (retry ${t.attempt_count + 1} at ${t.next_attempt_at})`;
+        }
+        const paused = t.paused ? " [paused]" : "";
+        if (t.status === "active" && t.cancel_requested_at) {
+          sched += " (cancelling)";
+        }
+        console.log(`  #${t.id} [${t.status}]${paused} ${t.title} (p${t.priority})${sched}`);
         if (t.result) {
-          const preview = t.result.length > 100 ? t.result.slice(0, 100) + "..." : t.result;
+          const preview =
+            t.result.length > 100 ? `${t.result.slice(0, 100)}... (task show ${t.id})` : t.result;
           console.log(`    Result: ${preview}`);
         }
       }
       console.log();
       break;
     }
+    case "show": {
+      const id = Number(args[1]);
+      if (!id || isNaN(id)) {
+        console.error("Usage: fryler task show <id>");
+        process.exit(1);
+      }
+      const task = getTask(id);
+      if (!task) {
+        console.error(`Task #${id} not found.`);
+        process.exit(1);
+      }
+      const label = (t: Task) => `#${t.id} [${t.status}] ${t.title}`;
+      const printTree = (
+        t: Task,
+        next: (id: number) => Task[],
+        indent: string,
+        seen: Set<number>,
+      ): void => {
+        for (const child of next(t.id)) {
+          const repeat = seen.has(child.id);
+          console.log(`${indent}└─ ${label(child)}${repeat ? " (see above)" : ""}`);
+          if (!repeat) {
+            seen.add(child.id);
+            printTree(child, next, indent + "   ", seen);
+          }
+        }
+      };
+
+      const { getTaskRunTotals } = await import("@/db/runs.ts");
+      const totals = getTaskRunTotals(task.id);
+      const field = (name: string, value: string | number | null) => {
+        if (value !== null && value !== "") console.log(`  ${`${name}:`.padEnd(12)} ${value}`);
+      };
+
+      console.log(label(task) + (task.paused ? " [paused]" : ""));
+      field("Priority", task.priority);
+      field("Cwd", task.cwd);
+      field("Recurrence", task.recurrence);
+      field("Series", task.series_id ? `#${task.series_id}` : null);
+      field("Handler", task.handler);
+      field("Created", task.created_at);
+      field("Updated", task.updated_at);
+      field("Scheduled", task.scheduled_at);
+      field("Next retry", task.next_attempt_at);
+      field("Completed", task.completed_at);
+      field(
+        "Attempts",
+        task.attempt_count > 0 || task.max_attempts
+          ? `${task.attempt_count}${task.max_attempts ? ` of ${task.max_attempts}` : ""}`
+          : null,
+      );
+      field("Timeout", task.timeout_seconds ? `${task.timeout_seconds}s` : null);
+      field(
+        "Cost",
+        totals.runs > 0
+          ? `$${totals.cost_usd.toFixed(4)} over ${totals.runs} run(s), ` +
+              `${Math.round(totals.duration_ms / 1000)}s, ${totals.num_turns} turns`
+          : null,
+      );
+      if (task.description) console.log(`\nDescription:\n${task.description}`);
+      if (task.result) console.log(`\nResult:\n${task.result}`);
+
+      const dependencies = getTaskDependencies(task.id);
+      console.log("\nDepends on:");
+      if (dependencies.length === 0) console.log("  (nothing)");
+      printTree(task, getTaskDependencies, "  ", new Set([task.id]));
+
+      const dependents = getTaskDependents(task.id);
+      console.log("\nBlocks:");
+      if (dependents.length === 0) console.log("  (nothing)");
+      printTree(task, getTaskDependents, "  ", new Set([task.id]));
+      console.log();
+      break;
+    }
+    case "edit": {
+      const id = Number(args[1]);
+      if (!id || isNaN(id)) {
+        console.error(
+          "Usage: fryler task edit <id> [--title <t>] [--description <d>] [-p <N>] [--scheduled <time>] [--cwd <dir>] [--timeout <seconds>]",
+        );
+        process.exit(1);
+      }
+      const changes: UpdateTaskInput = {};
+      if (values.title !== undefined) changes.title = values.title as string;
+      if (values.description !== undefined) changes.description = values.description as string;
+      if (values.priority !== undefined) {
+        const priority = Number(values.priority);
+        if (!Number.isInteger(priority) || priority < 1 || priority > 5) {
+          console.error("--priority must be a whole number from 1 to 5");
+          process.exit(1);
+        }
+        changes.priority = priority;
+      }
+      // An empty value clears the field
+      if (values.scheduled !== undefined)
+        changes.scheduled_at = (values.scheduled as string) || null;
+      if (values.cwd !== undefined) changes.cwd = (values.cwd as string) || null;
+      if (values.timeout !== undefined) {
+        const timeout = values.timeout ? Number(values.timeout) : null;
+        if (timeout !== null && !(timeout > 0)) {
+          console.error("--timeout must be a positive number of seconds");
+          process.exit(1);
+        }
+        changes.timeout_seconds = timeout;
+      }
+      if (Object.keys(changes).length === 0) {
+        console.error(
+          "Nothing to change: pass --title, --description, -p, --scheduled, --cwd or --timeout.",
+        );
+        process.exit(1);
+      }
+      if (changes.title === "") {
+        console.error("--title cannot be empty");
+        process.exit(1);
+      }
+      const task = updateTask(id, changes);
+      if (!task) {
+        console.error(`Could not edit task #${id} (not found or not pending).`);
+        process.exit(1);
+      }
+      console.log(`Updated task #${task.id}: ${task.title} (priority: ${task.priority})`);
+      break;
+    }
     case "cancel": {
       const id = Number(args[1]);
       if (!id || isNaN(id)) {
         console.error("Usage: fryler task cancel <id>");
         process.exit(1);
       }
-      const ok = cancelTask(id);
-      console.log(ok ? `Cancelled task #${id}.` : `Could not cancel task #${id} (not pending?).`);
+      const outcome = requestTaskCancel(id);
+      if (outcome === "cancelled") {
+        console.log(`Cancelled task #${id}.`);
+      } else if (outcome === "requested") {
+        const { notifyCancelRequested } = await import("@/daemon/index.ts");
+        console.log(
+          notifyCancelRequested()
+            ? `Cancelling running task #${id}...`
+            : `Cancel requested for task #${id}; it stops at its next lease renewal.`,
+        );
+      } else {
+        console.log(`Could not cancel task #${id} (already finished?).`);
+      }
+      break;
+    }
+    case "retry": {
+      const id = Number(args[1]);
+      if (!id || isNaN(id)) {
+        console.error("Usage: fryler task retry <id>");
+        process.exit(1);
+      }
+      const ok = retryTask(id);
+      console.log(
+        ok ? `Re-queued task #${id}.` : `Could not retry task #${id} (not failed or interrupted?).`,
+      );
+      break;
+    }
+    case "pause":
+    case "resume": {
+      const id = Number(args[1]);
+      if (!id || isNaN(id)) {
+        console.error(`Usage: fryler task ${subcommand} <id>`);
+        process.exit(1);
+      }
+      const ok = setTaskPaused(id, subcommand === "pause");
+      const verb = subcommand === "pause" ? "Paused" : "Resumed";
+      console.log(
+        ok ? `${verb} task #${id}.` : `Could not ${subcommand} task #${id} (not pending?).`,
+      );
+      break;
+    }
+    case "stop": {
+      const id = Number(args[1]);
+      if (!id || isNaN(id)) {
+        console.error("Usage: fryler task stop <id>");
+        process.exit(1);
+      }
+      const open = stopTaskRecurrence(id);
+      if (!open) {
+        console.log(`Task #${id} is not a recurring task.`);
+        break;
+      }
+      // Drop the queued occurrence too, so the series ends now
+      if (open.status === "pending") {
+        cancelTask(open.id);
+      }
+      console.log(`Stopped recurring task #${id}.`);
       break;
     }
     default:
       console.error(`Unknown task subcommand: ${subcommand}`);
-      console.error("Usage: fryler task <add|list|cancel>");
+      console.error("Usage: fryler task <add|list|show|edit|cancel|retry|pause|resume|stop>");
       process.exit(1);
   }
 }
@@ -575,6 +1091,392 @@ async function cmdHeartbeat(): Promise<void> {
   console.log("Heartbeat complete.");
 }
 
+async function cmdMemory(args: string[]): Promise<void> {
+  const subcommand = args[0];
+
+  if (!subcommand) {
+    console.error("Usage: fryler memory <search|list|show|edit|forget|pin|sync|consolidate>");
+    process.exit(1);
+  }
+
+  const { getDb } = await import("@/db/index.ts");
+  const {
+    searchMemories,
+    listMemories,
+    getMemory,
+    listSupersededMemories,
+    listMemoryAudit,
+    updateMemory,
+    forgetMemory,
+    restoreMemory,
+    setMemoryPinned,
+    isMemoryCurrent,
+    isMemoryExpired,
+    recordMemoryAudit,
+  } = await import("@/db/memories.ts");
+  const { appendMemory, removeMemoryEntry, replaceMemoryEntry } = await import("@/memory/index.ts");
+
+  getDb();
+
+  const memoryId = (usage: string): number => {
+    const id = Number(args[1]);
+    if (!id || isNaN(id)) {
+      console.error(`Usage: ${usage}`);
+      process.exit(1);
+    }
+    return id;
+  };
+  const state = (m: Memory): string => {
+    if (m.forgotten_at) return " [forgotten]";
+    if (m.superseded_by) return ` [superseded by #${m.superseded_by}]`;
+    if (m.archived_at || isMemoryExpired(m)) return " [expired]";
+    return m.pinned ? " [pinned]" : "";
+  };
+
+  switch (subcommand) {
+    case "search": {
+      const query = args.slice(1).join(" ");
+      if (!query) {
+        console.error(
+          "Usage: fryler memory search <query> [--category <name>] [--source <source>] [--limit <N>]",
+        );
+        process.exit(1);
+      }
+      const limit = values.limit ? Number(values.limit) : 20;
+      // Bold matched terms on a terminal, mark them with asterisks otherwise
+      const highlight: [string, string] = process.stdout.isTTY
+        ? ["\x1b[1m", "\x1b[0m"]
+        : ["*", "*"];
+      const results = searchMemories(query, {
+        category: values.category as string | undefined,
+        source: values.source as string | undefined,
+        limit,
+        highlight,
+      });
+      if (results.length === 0) {
+        console.log(`No memories match "${query}".`);
+        return;
+      }
+      console.log(`Memories matching "${query}":\n`);
+      for (const m of results) {
+        const source = m.source ? `, ${m.source}` : "";
+        console.log(`  #${m.id} [${m.category}${source}] ${m.created_at}`);
+        console.log(`    ${m.highlighted}`);
+      }
+      console.log();
+      break;
+    }
+    case "list": {
+      const memories = listMemories(values.category as string | undefined, {
+        source: values.source as string | undefined,
+        pinned: values.pinned ? true : undefined,
+        includeInactive: values.all as boolean,
+      });
+      if (memories.length === 0) {
+        console.log("No memories.");
+        return;
+      }
+      // Most recent last, like the file; --limit keeps the newest
+      const limit = values.limit ? Number(values.limit) : 20;
+      const shown = memories.slice(-limit);
+      console.log(
+        shown.length < memories.length
+          ? `Memories (newest ${shown.length} of ${memories.length}):\n`
+          : "Memories:\n",
+      );
+      for (const m of shown) {
+        const preview =
+          m.content.length > 100
+            ? `${m.content.slice(0, 100)}... (memory show ${m.id})`
+            : m.content;
+        console.log(`  #${m.id} [${m.category}]${state(m)} ${preview}`);
+      }
+      console.log();
+      break;
+    }
+    case "show": {
+      const id = memoryId("fryler memory show <id>");
+      const memory = getMemory(id);
+      if (!memory) {
+        console.error(`Memory #${id} not found.`);
+        process.exit(1);
+      }
+      const field = (name: string, value: string | number | null) => {
+        if (value !== null && value !== "") console.log(`  ${`${name}:`.padEnd(15)} ${value}`);
+      };
+      console.log(`#${memory.id} [${memory.category}]${state(memory)}`);
+      field("Source", memory.source);
+      field("Created", memory.created_at);
+      if (memory.session_id !== null) {
+        const { getSessionById } = await import("@/db/sessions.ts");
+        const session = getSessionById(memory.session_id);
+        field(
+          "Session",
+          session
+            ? `${session.title ?? "(untitled)"} — fryler resume ${session.claude_session_id}`
+            : `#${memory.session_id} (deleted)`,
+        );
+      }
+      if (memory.task_id !== null) {
+        const { getTask } = await import("@/db/tasks.ts");
+        const task = getTask(memory.task_id);
+        field(
+          "Task",
+          task
+            ? `#${task.id} ${task.title} [${task.status}] — fryler task show ${task.id}`
+            : `#${memory.task_id} (deleted)`,
+        );
+      }
+      field("Prompt", memory.prompt_excerpt);
+      field("Pinned", memory.pinned ? "yes" : null);
+      field(
+        "Superseded",
+        memory.superseded_by ? `${memory.superseded_at} by #${memory.superseded_by}` : null,
+      );
+      field("Forgotten", memory.forgotten_at);
+      field("Expires", memory.expires_at);
+      field("Archived", memory.archived_at);
+      console.log(`\n${memory.content}`);
+
+      const history = listSupersededMemories(memory.id);
+      if (history.length > 0) {
+        console.log("\nReplaced:");
+        for (const old of history) {
+          console.log(`  #${old.id} (${old.created_at}) ${old.content}`);
+        }
+      }
+
+      const changes = listMemoryAudit(memory.id);
+      if (changes.length > 0) {
+        console.log("\nChanges:");
+        for (const c of changes) {
+          const why = c.reason ? ` — ${c.reason}` : "";
+          console.log(`  ${c.created_at} ${c.action} by ${c.source ?? "unknown"}${why}`);
+          if (c.action === "update") console.log(`    was: ${c.old_content}`);
+        }
+      }
+      break;
+    }
+    case "edit": {
+      const usage = "fryler memory edit <id> [new text] [--category <name>]";
+      const id = memoryId(usage);
+      const content = args.slice(2).join(" ").trim();
+      const category = (values.category as string | undefined)?.trim();
+      if (!content && !category) {
+        console.error(`Nothing to change: pass the new text and/or --category.\nUsage: ${usage}`);
+        process.exit(1);
+      }
+      const before = getMemory(id);
+      if (!before) {
+        console.error(`Memory #${id} not found.`);
+        process.exit(1);
+      }
+      const after = getDb().transaction(() => {
+        const updated = updateMemory(id, { content: content || undefined, category });
+        if (updated) {
+          recordMemoryAudit({
+            memory_id: id,
+            action: "update",
+            source: "cli",
+            reason: null,
+            old_content: before.content,
+            new_content: updated.content,
+          });
+        }
+        return updated;
+      })();
+      if (!after) {
+        console.error(`Memory #${id} not found.`);
+        process.exit(1);
+      }
+      // Only current memories have an entry in MEMORY.md
+      if (isMemoryCurrent(after)) {
+        await replaceMemoryEntry(before, after);
+      }
+      console.log(`Updated memory #${after.id} [${after.category}]: ${after.content}`);
+      break;
+    }
+    case "forget": {
+      const id = memoryId("fryler memory forget <id> [--undo]");
+      if (values.undo) {
+        const memory = restoreMemory(id);
+        if (!memory) {
+          console.error(`Could not restore memory #${id} (not found or not forgotten).`);
+          process.exit(1);
+        }
+        console.log(`Restored memory #${id}: ${memory.content}`);
+        if (isMemoryCurrent(memory)) {
+          await appendMemory(memory);
+        } else if (isMemoryExpired(memory)) {
+          console.log(`It expired at ${memory.expires_at}, so it stays out of MEMORY.md.`);
+        }
+      } else {
+        const memory = getDb().transaction(() => {
+          const forgotten = forgetMemory(id);
+          if (forgotten) {
+            recordMemoryAudit({
+              memory_id: id,
+              action: "forget",
+              source: "cli",
+              reason: null,
+              old_content: forgotten.content,
+              new_content: null,
+            });
+          }
+          return forgotten;
+        })();
+        if (!memory) {
+          console.error(`Could not forget memory #${id} (not found or already forgotten).`);
+          process.exit(1);
+        }
+        await removeMemoryEntry(memory);
+        console.log(
+          `Forgot memory #${id}: ${memory.content}\nUndo with: fryler memory forget ${id} --undo`,
+        );
+      }
+      break;
+    }
+    case "pin": {
+      const id = memoryId("fryler memory pin <id> [--undo]");
+      const pinned = !values.undo;
+      if (!setMemoryPinned(id, pinned)) {
+        console.error(`Memory #${id} not found.`);
+        process.exit(1);
+      }
+      console.log(
+        pinned
+          ? `Pinned memory #${id}; it is now included in every prompt.`
+          : `Unpinned memory #${id}.`,
+      );
+      break;
+    }
+    case "sync": {
+      const { syncMemoryFile, hasSyncChanges } = await import("@/memory/sync.ts");
+      const report = await syncMemoryFile();
+      const ids = (list: number[]) => list.map((id) => `#${id}`).join(", ");
+      const lines: [string, number[]][] = [
+        ["Added from MEMORY.md", report.dbAdded],
+        ["Linked to existing memories", report.linked],
+        ["Updated from MEMORY.md", report.dbUpdated],
+        ["Forgotten (deleted from MEMORY.md)", report.dbForgotten],
+        ["Written to MEMORY.md", report.fileAdded],
+        ["Rewritten in MEMORY.md", report.fileUpdated],
+        ["Removed from MEMORY.md", report.fileRemoved],
+      ];
+      for (const [label, list] of lines) {
+        if (list.length > 0) console.log(`${label}: ${ids(list)}`);
+      }
+      if (!hasSyncChanges(report) && report.conflicts.length === 0) {
+        console.log("MEMORY.md and the database are in sync.");
+      }
+      if (report.conflicts.length > 0) {
+        console.log(`\n${report.conflicts.length} conflict(s), left unchanged on both sides:\n`);
+        for (const c of report.conflicts) {
+          console.log(`  #${c.id}: ${c.reason}`);
+          console.log(`    MEMORY.md: ${c.file ?? "(deleted)"}`);
+          console.log(`    Database:  ${c.db ?? "(deleted)"}`);
+        }
+        console.log();
+        process.exit(1);
+      }
+      break;
+    }
+    case "consolidate": {
+      const { getConfig } = await import("@/config/index.ts");
+      const { planConsolidation, applyConsolidation, formatConsolidationDiff } =
+        await import("@/memory/consolidate.ts");
+      const config = await getConfig();
+      const category = values.category as string | undefined;
+
+      // Naming a category reviews it however few memories it has
+      const plan = await planConsolidation({
+        category,
+        minEntries: category ? 2 : config.memory_consolidation_min_entries,
+        dryRun: values["dry-run"] as boolean,
+      });
+      if (plan.categories.length === 0) {
+        console.log(
+          category
+            ? `Not enough memories in "${category}" to consolidate.`
+            : `No category has ${config.memory_consolidation_min_entries} or more memories to consolidate.`,
+        );
+        break;
+      }
+      if (plan.merges.length === 0) {
+        console.log(`Reviewed ${plan.categories.join(", ")}; nothing to merge.`);
+        break;
+      }
+
+      console.log(formatConsolidationDiff(plan.merges));
+      if (values["dry-run"]) {
+        console.log("\nDry run: nothing changed. Run without --dry-run to apply.");
+        break;
+      }
+
+      const applied = await applyConsolidation(plan);
+      const merged = applied.reduce((n, m) => n + m.sources.length, 0);
+      console.log(
+        `\nMerged ${merged} memories into ${applied.length} ${applied.length === 1 ? "summary" : "summaries"}.`,
+      );
+      const skipped = plan.merges.length - applied.length;
+      if (skipped > 0) {
+        console.log(`Skipped ${skipped} merge(s) whose memories changed while planning.`);
+      }
+      break;
+    }
+    default:
+      console.error(`Unknown memory subcommand: ${subcommand}`);
+      console.error("Usage: fryler memory <search|list|show|edit|forget|pin|sync|consolidate>");
+      process.exit(1);
+  }
+}
+
+async function cmdCost(): Promise<void> {
+  const { getDb } = await import("@/db/index.ts");
+  const { getCostReport } = await import("@/db/runs.ts");
+  const { parseSince } = await import("@/time/index.ts");
+
+  const by = ((values.by as string) || "source") as CostGrouping;
+  if (!["source", "task", "session", "model", "day"].includes(by)) {
+    console.error("Usage: fryler cost [--since <7d|date>] [--by task|session|model|day]");
+    process.exit(1);
+  }
+
+  let since: Date | undefined;
+  if (values.since) {
+    try {
+      since = parseSince(values.since as string);
+    } catch (err) {
+      console.error(err instanceof Error ? err.message : String(err));
+      process.exit(1);
+    }
+  }
+
+  getDb();
+
+  const rows = getCostReport(by, since);
+  const total = rows.reduce((sum, r) => sum + r.cost_usd, 0);
+  const runs = rows.reduce((sum, r) => sum + r.runs, 0);
+  const errors = rows.reduce((sum, r) => sum + r.errors, 0);
+  const period = since ? `since ${since.toLocaleString()}` : "all time";
+
+  console.log(`Claude spend (${period}): $${total.toFixed(4)} over ${runs} run(s)`);
+  if (errors > 0) console.log(`  ${errors} run(s) ended in an error`);
+  if (rows.length === 0) return;
+
+  console.log(`\nBy ${by}:\n`);
+  for (const r of rows) {
+    let name = r.key ?? `(no ${by})`;
+    if (by === "task" && r.key) name = `#${r.key}`;
+    if (r.label) name += ` ${r.label}`;
+    const seconds = Math.round(r.duration_ms / 1000);
+    console.log(
+      `  ${name.slice(0, 48).padEnd(48)} $${r.cost_usd.toFixed(4).padStart(9)}  ` +
+        `${String(r.runs).padStart(4)} run(s)  ${String(r.num_turns).padStart(5)} turns  ${seconds}s`,
+    );
+  }
+}
+
 async function cmdSay(args: string[]): Promise<void> {
   const text = args.join(" ");
   if (!text) {
@@ -4,8 +4,10 @@
  */
 
 import { homedir } from "node:os";
+import type { Subprocess } from "bun";
 import { getIdentityContext } from "@/memory/index.ts";
 import { getConfig } from "@/config/index.ts";
+import { recordRun, type RunSource } from "@/db/runs.ts";
 import { logger } from "@/logger/index.ts";
 
 export interface ClaudeResponse {
@@ -17,15 +19,41 @@ export interface ClaudeResponse {
   is_error: boolean;
 }
 
+/**
+ * Claude finished but flagged its result as an error. The message is the
+ * model's own result text, so it says nothing about whether a retry would
+ * help (unlike a failed process's stderr).
+ */
+export class ClaudeResultError extends Error {
+  constructor(result: string) {
+    super(result || "claude reported an error");
+    this.name = "ClaudeResultError";
+  }
+}
+
 export interface AskOptions {
+  /** Start a new conversation with this id. */
   sessionId?: string;
-  continueSession?: boolean;
+  /** Continue this conversation (--resume), rather than whichever one ran last. */
+  resumeSessionId?: string;
+  /** With resumeSessionId: branch into a new session id instead of extending the original. */
+  forkSession?: boolean;
   maxTurns?: number;
   model?: string;
   systemPrompt?: string;
   injectIdentity?: boolean;
   noSessionPersistence?: boolean;
   cwd?: string;
+  /** Kill the claude process if it runs longer than this. */
+  timeoutMs?: number;
+  /** Kill the claude process when this signal aborts. */
+  signal?: AbortSignal;
+  /** Passed to the CLI as --max-budget-usd, capping the spend of this one invocation. */
+  maxBudgetUsd?: number;
+  /** Recorded in the claude_runs cost ledger (default "cli"). */
+  source?: RunSource;
+  /** Task this invocation runs, for the cost ledger. */
+  taskId?: number;
 }
 
 export interface StreamEvent {
@@ -33,6 +61,30 @@ export interface StreamEvent {
   [key: string]: unknown;
 }
 
+/** Tool input fields that best say what a call did, most telling first. */
+const TOOL_SUMMARY_FIELDS = [
+  "command",
+  "file_path",
+  "path",
+  "pattern",
+  "query",
+  "url",
+  "description",
+];
+
+/**
+ * One-line summary of a tool_use content block from a stream-json assistant
+ * message, e.g. "Bash: git status". Returns null for other blocks.
+ */
+export function summarizeToolUse(block: Record<string, unknown>): string | null {
+  if (block.type !== "tool_use" || typeof block.name !== "string") return null;
+  const input = (block.input ?? {}) as Record<string, unknown>;
+  const field = TOOL_SUMMARY_FIELDS.find((key) => typeof input[key] === "string");
+  if (!field) return block.name;
+  const detail = (input[field] as string).replace(/\s+/g, " ").trim();
+  return `${block.name}: ${detail.length > 120 ? `${detail.slice(0, 117)}...` : detail}`;
+}
+
 /**
  * Returns a clean env object with CLAUDECODE and CLAUDE_CODE_ENTRY_POINT
  * removed so that the spawned claude process does not detect nesting.
@@ -70,15 +122,16 @@ export async function buildArgs(
   const injectIdentity = options?.injectIdentity ?? true;
   if (options?.systemPrompt) {
     const systemPrompt = injectIdentity
-      ? `${await getIdentityContext()}\n\n${options.systemPrompt}`
+      ? `${await getIdentityContext(prompt)}\n\n${options.systemPrompt}`
       : options.systemPrompt;
     args.push("--system-prompt", systemPrompt);
   } else if (injectIdentity) {
-    args.push("--system-prompt", await getIdentityContext());
+    args.push("--system-prompt", await getIdentityContext(prompt));
   }
 
-  if (options?.continueSession) {
-    args.push("--continue");
+  if (options?.resumeSessionId) {
+    args.push("--resume", options.resumeSessionId);
+    if (options.forkSession) args.push("--fork-session");
   } else if (options?.sessionId) {
     args.push("--session-id", options.sessionId);
   }
@@ -90,6 +143,10 @@ export async function buildArgs(
     args.push("--no-session-persistence");
   }
 
+  if (options?.maxBudgetUsd) {
+    args.push("--max-budget-usd", String(options.maxBudgetUsd));
+  }
+
   return args;
 }
 
@@ -118,6 +175,11 @@ export function parseClaudeOutput(raw: string): ClaudeResponse {
     throw new Error(`Unexpected claude output type: ${typeof parsed}`);
   }
 
+  return responseFromResult(resultObj);
+}
+
+/** Map a claude "result" object (json output or final stream event) to a ClaudeResponse. */
+function responseFromResult(resultObj: Record<string, unknown>): ClaudeResponse {
   return {
     session_id: String(resultObj.session_id ?? ""),
     result: String(resultObj.result ?? ""),
@@ -128,6 +190,69 @@ export function parseClaudeOutput(raw: string): ClaudeResponse {
   };
 }
 
+/**
+ * Kill `proc` once it outlives `options.timeoutMs` or `options.signal` aborts,
+ * then call `onKill` (e.g. to stop reading output a grandchild may hold open).
+ * Returns a function that stops watching and reports why the process was
+ * killed, or null if it wasn't.
+ */
+function superviseProcess(
+  proc: Subprocess,
+  options?: AskOptions,
+  onKill?: () => void,
+): () => string | null {
+  let killedFor: string | null = null;
+  const kill = (reason: string) => {
+    if (killedFor) return;
+    killedFor = reason;
+    logger.warn("Killing claude process", { pid: proc.pid, reason });
+    proc.kill();
+    onKill?.();
+  };
+
+  const timeoutMs = options?.timeoutMs;
+  const timer = timeoutMs
+    ? setTimeout(() => kill(`claude timed out after ${Math.round(timeoutMs / 1000)}s`), timeoutMs)
+    : null;
+  const onAbort = () => kill("claude was cancelled");
+  const signal = options?.signal;
+  if (signal?.aborted) onAbort();
+  else signal?.addEventListener("abort", onAbort, { once: true });
+
+  return () => {
+    if (timer) clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+    return killedFor;
+  };
+}
+
+/**
+ * Add an invocation to the claude_runs cost ledger. Failing to record is
+ * logged, never thrown — accounting must not break the conversation.
+ */
+async function recordClaudeRun(
+  options: AskOptions | undefined,
+  response: Partial<ClaudeResponse> & { is_error: boolean },
+): Promise<void> {
+  try {
+    const config = await getConfig();
+    recordRun({
+      claude_session_id: response.session_id,
+      task_id: options?.taskId,
+      source: options?.source ?? "cli",
+      model: options?.model ?? config.claude_model,
+      cost_usd: response.cost_usd,
+      duration_ms: response.duration_ms,
+      num_turns: response.num_turns,
+      is_error: response.is_error,
+    });
+  } catch (err) {
+    logger.warn("Failed to record claude run", {
+      error: err instanceof Error ? err.message : String(err),
+    });
+  }
+}
+
 /**
  * One-shot query to the claude CLI. Returns parsed ClaudeResponse.
  */
@@ -135,6 +260,7 @@ export async function ask(prompt: string, options?: AskOptions): Promise<ClaudeR
   const args = await buildArgs(prompt, "json", options);
 
   logger.info("claude ask", { prompt: prompt.slice(0, 100), args_count: args.length });
+  const started = performance.now();
 
   const proc = Bun.spawn(["claude", ...args], {
     stdout: "pipe",
@@ -143,16 +269,42 @@ export async function ask(prompt: string, options?: AskOptions): Promise<ClaudeR
     cwd: options?.cwd ?? homedir(),
   });
 
-  const stdout = await new Response(proc.stdout).text();
-  const stderr = await new Response(proc.stderr).text();
+  const stopSupervising = superviseProcess(proc, options);
+  const output = Promise.all([new Response(proc.stdout).text(), new Response(proc.stderr).text()]);
   const exitCode = await proc.exited;
+  const killedFor = stopSupervising();
+
+  // Don't wait on output from a killed run; its children may still hold the pipes
+  if (killedFor) {
+    output.catch(() => {});
+    await recordClaudeRun(options, {
+      is_error: true,
+      duration_ms: performance.now() - started,
+    });
+    throw new Error(killedFor);
+  }
+
+  const [stdout, stderr] = await output;
 
   if (exitCode !== 0) {
     logger.error("claude process exited with error", { exitCode, stderr });
+    // A run that fails after starting still prints its result, cost included
+    let partial: Partial<ClaudeResponse> = {};
+    try {
+      partial = parseClaudeOutput(stdout);
+    } catch {
+      // No result to record beyond the failure itself
+    }
+    await recordClaudeRun(options, {
+      ...partial,
+      is_error: true,
+      duration_ms: partial.duration_ms ?? performance.now() - started,
+    });
     throw new Error(`claude exited with code ${exitCode}: ${stderr}`);
   }
 
   const response = parseClaudeOutput(stdout);
+  await recordClaudeRun(options, response);
 
   logger.info("claude ask complete", {
     session_id: response.session_id,
@@ -176,6 +328,7 @@ export async function* askStreaming(
   const args = await buildArgs(prompt, "stream-json", options);
 
   logger.info("claude askStreaming", { prompt: prompt.slice(0, 100) });
+  const started = performance.now();
 
   const proc = Bun.spawn(["claude", ...args], {
     stdout: "pipe",
@@ -185,8 +338,15 @@ export async function* askStreaming(
   });
 
   const reader = proc.stdout.getReader();
+  const stopSupervising = superviseProcess(proc, options, () => {
+    reader.cancel().catch(() => {});
+  });
+  let killedFor: string | null = null;
+  // The final "result" event carries the session id and cost for the ledger
+  let resultEvent: ClaudeResponse | null = null;
   const decoder = new TextDecoder();
   let buffer = "";
+  let finished = false;
 
   try {
     while (true) {
@@ -203,6 +363,7 @@ export async function* askStreaming(
         if (trimmed === "") continue;
         try {
           const event = JSON.parse(trimmed) as StreamEvent;
+          if (event.type === "result") resultEvent = responseFromResult(event);
           yield event;
         } catch {
           logger.warn("Failed to parse stream-json line", { line: trimmed });
@@ -214,13 +375,32 @@ export async function* askStreaming(
     if (buffer.trim() !== "") {
       try {
         const event = JSON.parse(buffer.trim()) as StreamEvent;
+        if (event.type === "result") resultEvent = responseFromResult(event);
         yield event;
       } catch {
         logger.warn("Failed to parse final stream-json line", { line: buffer.trim() });
       }
     }
+    finished = true;
   } finally {
     reader.releaseLock();
+    killedFor = stopSupervising();
+    // A consumer that stops reading early never gets past this block
+    if (!finished) {
+      await recordClaudeRun(options, {
+        ...resultEvent,
+        is_error: resultEvent?.is_error ?? true,
+        duration_ms: resultEvent?.duration_ms ?? performance.now() - started,
+      });
+    }
+  }
+
+  if (killedFor) {
+    await recordClaudeRun(options, {
+      is_error: true,
+      duration_ms: performance.now() - started,
+    });
+    throw new Error(killedFor);
   }
 
   const stderr = await new Response(proc.stderr).text();
@@ -228,9 +408,19 @@ export async function* askStreaming(
 
   if (exitCode !== 0) {
     logger.error("claude streaming process exited with error", { exitCode, stderr });
+    await recordClaudeRun(options, {
+      ...resultEvent,
+      is_error: true,
+      duration_ms: resultEvent?.duration_ms ?? performance.now() - started,
+    });
     throw new Error(`claude exited with code ${exitCode}: ${stderr}`);
   }
 
+  await recordClaudeRun(
+    options,
+    resultEvent ?? { is_error: false, duration_ms: performance.now() - started },
+  );
+
   logger.info("claude askStreaming complete");
 }
 
@@ -242,8 +432,9 @@ export async function askForTask(
   taskDescription: string,
   context?: string,
   cwd?: string,
+  runOptions?: Pick<AskOptions, "timeoutMs" | "signal" | "taskId" | "maxBudgetUsd">,
 ): Promise<ClaudeResponse> {
-  const identityContext = await getIdentityContext();
+  const identityContext = await getIdentityContext(`${context ?? ""}\n${taskDescription}`);
   const contextBlock = context ? `\n\n=== ADDITIONAL CONTEXT ===\n${context}` : "";
   const systemPrompt =
     `${identityContext}${contextBlock}\n\n` +
@@ -259,5 +450,7 @@ export async function askForTask(
     injectIdentity: false,
     noSessionPersistence: true,
     cwd,
+    source: "heartbeat",
+    ...runOptions,
   });
 }
@@ -4,6 +4,7 @@
 
 import { homedir } from "node:os";
 import { join } from "node:path";
+import { logger } from "@/logger/index.ts";
 
 export interface FrylerConfig {
   heartbeat_interval_seconds: number;
@@ -14,6 +15,33 @@ export interface FrylerConfig {
   data_dir: string;
   claude_model: string;
   claude_max_turns: number;
+  max_concurrent_tasks: number;
+  /** Hours a due task waits before its priority improves by one step (0 = never). */
+  task_priority_aging_hours: number;
+  /** Default run time limit for a task's claude process (0 = no limit). */
+  task_timeout_seconds: number;
+  /** Stop starting heartbeat tasks once the day's Claude spend reaches this (0 = no limit). */
+  daily_budget_usd: number;
+  /** Cap on a single heartbeat task's Claude spend, passed as --max-budget-usd (0 = no limit). */
+  task_budget_usd: number;
+  /** Approximate tokens of memories injected into each system prompt. */
+  memory_token_budget: number;
+  /** Most relevant memories injected per prompt, on top of pinned ones. */
+  memory_max_injected: number;
+  /** Log which memories were injected into each prompt, and why. */
+  memory_debug: boolean;
+  /** Word overlap (0–1) at which a new memory is a duplicate of one in its category and is skipped. */
+  memory_duplicate_similarity: number;
+  /** Cron expression for the built-in memory consolidation task ("" = off). */
+  memory_consolidation_schedule: string;
+  /** Categories with fewer current memories than this are left out of consolidation. */
+  memory_consolidation_min_entries: number;
+  task_max_attempts: number;
+  task_retry_base_seconds: number;
+  task_retry_max_seconds: number;
+  task_lease_timeout_seconds: number;
+  /** What to do with tasks left 'active' by a process that died mid-run. */
+  orphaned_task_policy: "requeue" | "fail" | "interrupt";
 }
 
 export function getDefaultConfig(): FrylerConfig {
@@ -26,9 +54,31 @@ export function getDefaultConfig(): FrylerConfig {
     data_dir: join(homedir(), ".fryler", "data"),
     claude_model: "sonnet",
     claude_max_turns: 25,
+    max_concurrent_tasks: 3,
+    task_priority_aging_hours: 24,
+    task_timeout_seconds: 1800,
+    daily_budget_usd: 0,
+    task_budget_usd: 0,
+    memory_token_budget: 1500,
+    memory_max_injected: 15,
+    memory_debug: false,
+    memory_duplicate_similarity: 0.85,
+    memory_consolidation_schedule: "0 4 * * 0",
+    memory_consolidation_min_entries: 10,
+    task_max_attempts: 3,
+    task_retry_base_seconds: 60,
+    task_retry_max_seconds: 3600,
+    task_lease_timeout_seconds: 300,
+    orphaned_task_policy: "requeue",
   };
 }
 
+/** Allowed values of the enum-like keys; anything else falls back to the default. */
+const ALLOWED_VALUES: Partial<Record<keyof FrylerConfig, readonly unknown[]>> = {
+  log_level: ["debug", "info", "warn", "error"],
+  orphaned_task_policy: ["requeue", "fail", "interrupt"],
+};
+
 export function parseTOML(content: string): Record<string, string | number | boolean> {
   const result: Record<string, string | number | boolean> = {};
   let currentSection = "";
@@ -106,6 +156,15 @@ export async function loadConfig(configPath?: string): Promise<FrylerConfig> {
 
   const parsed = parseTOML(content);
 
+  for (const [key, allowed] of Object.entries(ALLOWED_VALUES)) {
+    if (key in parsed && !allowed.includes(parsed[key])) {
+      logger.warn(`Invalid ${key} "${parsed[key]}" in ${resolvedPath}, using the default`, {
+        allowed,
+      });
+      delete parsed[key];
+    }
+  }
+
   return {
     ...defaults,
     ...parsed,
@@ -120,3 +179,8 @@ export async function getConfig(): Promise<FrylerConfig> {
   }
   return cachedConfig;
 }
+
+/** Use this config instead of loading one (for testing); null goes back to loading. */
+export function _setConfig(config: FrylerConfig | null): void {
+  cachedConfig = config;
+}
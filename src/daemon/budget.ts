@@ -0,0 +1,57 @@
+/**
+ * Daily spending cap for autonomous work. Once the day's recorded Claude
+ * spend reaches daily_budget_usd the heartbeat stops starting tasks; they
+ * stay pending and run after midnight (or once the budget is raised).
+ */
+
+import { getTotalCost } from "@/db/runs.ts";
+import type { FrylerConfig } from "@/config/index.ts";
+import { writeSayAction } from "@/outbox/index.ts";
+import { logger } from "@/logger/index.ts";
+
+/** Local date the over-budget notification was last sent, so it goes out once a day. */
+let notifiedOn: string | null = null;
+
+/** Start of the current day in local time. */
+function startOfToday(now: Date = new Date()): Date {
+  const midnight = new Date(now);
+  midnight.setHours(0, 0, 0, 0);
+  return midnight;
+}
+
+/** Claude spend recorded since local midnight, across every source. */
+export function getSpendToday(): number {
+  return getTotalCost(startOfToday());
+}
+
+/**
+ * Whether today's spend has reached daily_budget_usd (0 = no limit).
+ * The first time this is true on a given day a notification is queued.
+ */
+export function isDailyBudgetExhausted(config: FrylerConfig): boolean {
+  if (!(config.daily_budget_usd > 0)) return false;
+
+  const spent = getSpendToday();
+  if (spent < config.daily_budget_usd) return false;
+
+  const today = startOfToday().toDateString();
+  if (notifiedOn !== today) {
+    notifiedOn = today;
+    logger.warn("Daily budget reached, not starting new tasks", {
+      spent_usd: spent,
+      daily_budget_usd: config.daily_budget_usd,
+    });
+    writeSayAction(
+      `Fryler has spent $${spent.toFixed(2)} today, reaching its daily budget of ` +
+        `$${config.daily_budget_usd.toFixed(2)}. Pending tasks will wait until tomorrow.`,
+    ).catch((err) => {
+      logger.error("Failed to queue budget notification", { error: String(err) });
+    });
+  }
+  return true;
+}
+
+/** Reset the once-a-day notification state (for testing). */
+export function _resetBudgetNotification(): void {
+  notifiedOn = null;
+}
@@ -1,17 +1,42 @@
 /**
- * Heartbeat loop — checks for pending tasks and executes due work.
+ * Heartbeat loop — checks for pending tasks and executes due work
+ * in a pool of up to max_concurrent_tasks concurrent workers.
  */
 
-import { getDueTasks, updateTaskStatus, createTask } from "@/db/tasks.ts";
-import { createMemory } from "@/db/memories.ts";
-import { appendMemory } from "@/memory/index.ts";
-import { askForTask } from "@/claude/client.ts";
+import {
+  claimNextTask,
+  updateTaskStatus,
+  renewTaskLease,
+  scheduleTaskRetry,
+  spawnNextOccurrence,
+  failDependents,
+  getCancelRequestedTaskIds,
+  type Task,
+} from "@/db/tasks.ts";
+import {
+  storeMemory,
+  reviseMemory,
+  retractMemory,
+  archiveExpiredMemoryEntries,
+} from "@/memory/index.ts";
+import { askForTask, ClaudeResultError } from "@/claude/client.ts";
 import { parseClaudeResponse } from "@/tasks/parser.ts";
+import { createTasksFromMarkers } from "@/tasks/create.ts";
+import { isRetryableError, getRetryDelayMs } from "@/tasks/retry.ts";
+import { getTaskHandler } from "@/tasks/handlers.ts";
+import { getConfig, type FrylerConfig } from "@/config/index.ts";
+import { getLeaseOwner, recoverOrphanedTasks } from "./lease.ts";
+import { isDailyBudgetExhausted } from "./budget.ts";
 import { writeSayAction } from "@/outbox/index.ts";
 import { logger } from "@/logger/index.ts";
 
 let intervalId: ReturnType<typeof setInterval> | null = null;
-let busy = false;
+/** In-flight task runs, keyed by task id. Aborting the controller kills the claude process. */
+const running = new Map<number, { promise: Promise<void>; controller: AbortController }>();
+/** Set while the daemon shuts down, so finished runs don't claim more work. */
+let draining = false;
+/** Abort reason for runs cut short by shutdown rather than a cancel request. */
+const SHUTDOWN = "shutdown";
 
 export function startHeartbeat(intervalMs: number): void {
   if (intervalId !== null) {
@@ -37,12 +62,31 @@ export function stopHeartbeat(): void {
   }
 }
 
-export async function heartbeatTick(): Promise<void> {
-  if (busy) {
-    logger.warn("Heartbeat tick skipped — previous tick still running");
-    return;
+/**
+ * Abort every running task and wait for the runs to settle, so nothing
+ * touches the database after the daemon closes it. Interrupted tasks go back
+ * to pending and run again after a restart.
+ */
+export async function stopRunningTasks(): Promise<void> {
+  draining = true;
+  try {
+    for (const entry of running.values()) entry.controller.abort(SHUTDOWN);
+    while (running.size > 0) {
+      await Promise.all([...running.values()].map((r) => r.promise));
+    }
+  } finally {
+    draining = false;
   }
-  busy = true;
+}
+
+/**
+ * One heartbeat: recover orphaned tasks, archive expired memories, then
+ * claim due tasks until every worker slot is busy. Resolves once the tasks
+ * claimed by this tick finish.
+ * A tick never waits for tasks started earlier, so a long-running task only
+ * occupies its own slot.
+ */
+export async function heartbeatTick(): Promise<void> {
   const tickStart = performance.now();
 
   const mem = process.memoryUsage();
@@ -50,78 +94,282 @@ export async function heartbeatTick(): Promise<void> {
     rss_mb: Math.round(mem.rss / 1024 / 1024),
     heap_used_mb: Math.round(mem.heapUsed / 1024 / 1024),
     heap_total_mb: Math.round(mem.heapTotal / 1024 / 1024),
+    running_tasks: running.size,
   });
 
+  const config = await getConfig();
+
+  // Sweep tasks left active by a process that went away mid-run
+  recoverOrphanedTasks(config.orphaned_task_policy, config.task_lease_timeout_seconds);
+
+  // Archive time-bound memories that have run out
   try {
-    const dueTasks = getDueTasks();
-    logger.info(`Found ${dueTasks.length} pending task(s)`);
+    const archived = await archiveExpiredMemoryEntries();
+    if (archived.length > 0) {
+      logger.info(`Archived ${archived.length} expired memory(ies)`, {
+        memory_ids: archived.map((m) => m.id),
+      });
+    }
+  } catch (err) {
+    logger.error("Failed to archive expired memories", {
+      error: err instanceof Error ? err.message : String(err),
+    });
+  }
 
-    for (const task of dueTasks) {
-      try {
-        logger.info(`Processing task #${task.id}: ${task.title}`);
-        updateTaskStatus(task.id, "active");
+  const started = fillWorkerPool(config);
+  logger.info(`Started ${started.length} task(s)`, {
+    running_tasks: running.size,
+    max_concurrent_tasks: config.max_concurrent_tasks,
+  });
 
-        const response = await askForTask(task.description || task.title, task.title, task.cwd ?? undefined);
+  await Promise.all(started);
 
-        logger.info(`Task #${task.id} claude response received`, {
-          session_id: response.session_id,
-          cost_usd: response.cost_usd,
-          duration_ms: response.duration_ms,
-          is_error: response.is_error,
-        });
+  logger.info("Heartbeat tick complete", {
+    duration_ms: Math.round(performance.now() - tickStart),
+  });
+}
 
-        const parsed = parseClaudeResponse(response.result);
+/**
+ * Claim due tasks into free worker slots. When a task finishes its slot is
+ * refilled straight away rather than waiting for the next tick. Nothing new
+ * starts once the daily budget is spent; due tasks simply stay pending.
+ * Returns the runs started by this call.
+ */
+function fillWorkerPool(config: FrylerConfig): Promise<void>[] {
+  const started: Promise<void>[] = [];
+  if (draining || isDailyBudgetExhausted(config)) return started;
 
-        // Store any memories found in the response
-        for (const mem of parsed.memories) {
-          logger.info(`Storing memory from task #${task.id}`, {
-            category: mem.category,
-          });
-          createMemory(mem.category, mem.content, `task-${task.id}`);
-          await appendMemory(mem.content);
-        }
+  while (running.size < config.max_concurrent_tasks) {
+    const task = claimNextTask(getLeaseOwner(), config.task_priority_aging_hours);
+    if (!task) break;
 
-        // Create any new tasks found in the response
-        for (const newTask of parsed.tasks) {
-          logger.info(`Creating sub-task from task #${task.id}`, {
-            title: newTask.title,
-          });
-          createTask({
-            title: newTask.title,
-            description: newTask.description,
-            priority: newTask.priority,
-            scheduled_at: newTask.scheduled_at,
-            cwd: newTask.cwd,
-          });
+    const controller = new AbortController();
+    const run = runTask(task, config, controller.signal)
+      .catch((err) => {
+        logger.error(`Task #${task.id} run crashed`, {
+          error: err instanceof Error ? err.message : String(err),
+        });
+      })
+      .finally(() => {
+        running.delete(task.id);
+        try {
+          fillWorkerPool(config);
+        } catch (err) {
+          logger.error("Failed to refill worker pool", { error: String(err) });
         }
+      });
+    running.set(task.id, { promise: run, controller });
+    started.push(run);
+  }
 
-        // Queue any say actions found in the response
-        for (const say of parsed.says) {
-          await writeSayAction(say.text, say.voice);
-          logger.info(`Queued say action from task #${task.id}`, {
-            text: say.text.slice(0, 50),
-          });
-        }
+  return started;
+}
 
-        updateTaskStatus(task.id, "completed", parsed.cleanText);
-        logger.info(`Task #${task.id} completed`);
-      } catch (err) {
-        const message = err instanceof Error ? err.message : String(err);
-        logger.error(`Task #${task.id} failed: ${message}`);
-        updateTaskStatus(task.id, "failed", message);
-      }
+/**
+ * Abort running tasks that `fryler task cancel` has flagged. Called when the
+ * daemon receives SIGUSR2 and, as a fallback, on every lease renewal.
+ */
+export function checkCancelRequests(): void {
+  for (const id of getCancelRequestedTaskIds()) {
+    const entry = running.get(id);
+    if (entry && !entry.controller.signal.aborted) {
+      logger.info(`Cancelling running task #${id}`);
+      entry.controller.abort();
     }
+  }
+}
 
-    logger.info("Heartbeat tick complete", {
-      duration_ms: Math.round(performance.now() - tickStart),
+/**
+ * Execute one claimed task attempt and record the outcome. Retryable failures are
+ * re-queued with exponential backoff until the task runs out of attempts.
+ * Aborting `signal` kills the claude process and records the task as cancelled.
+ */
+async function runTask(task: Task, config: FrylerConfig, signal: AbortSignal): Promise<void> {
+  const leaseOwner = getLeaseOwner();
+  // Renew well inside the timeout so a live run is never mistaken for an orphan
+  const leaseTimer = setInterval(
+    () => {
+      renewTaskLease(task.id, leaseOwner);
+      checkCancelRequests();
+    },
+    (config.task_lease_timeout_seconds * 1000) / 3,
+  );
+  const timeoutSeconds = task.timeout_seconds ?? config.task_timeout_seconds;
+
+  try {
+    logger.info(`Processing task #${task.id}: ${task.title}`, {
+      attempt: task.attempt_count,
+      cwd: task.cwd,
     });
+
+    const timeoutMs = timeoutSeconds > 0 ? timeoutSeconds * 1000 : undefined;
+    const result = task.handler
+      ? await runHandlerTask(task, config, signal, timeoutMs)
+      : await runClaudeTask(task, config, signal, timeoutMs);
+
+    updateTaskStatus(task.id, "completed", result);
+    logger.info(`Task #${task.id} completed`);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    const attempts = task.attempt_count;
+    const maxAttempts = task.max_attempts ?? config.task_max_attempts;
+
+    if (signal.aborted && signal.reason === SHUTDOWN) {
+      logger.info(`Task #${task.id} interrupted by shutdown, re-queued`, { attempt: attempts });
+      updateTaskStatus(task.id, "pending");
+      return;
+    } else if (signal.aborted) {
+      logger.info(`Task #${task.id} cancelled`, { attempt: attempts });
+      updateTaskStatus(task.id, "cancelled", "Cancelled while running");
+      failDependents(task.id);
+    } else if (
+      // Only a failed claude process is classified; result text is model output
+      !(err instanceof ClaudeResultError) &&
+      isRetryableError(message) &&
+      attempts < maxAttempts
+    ) {
+      const delayMs = getRetryDelayMs(
+        attempts,
+        config.task_retry_base_seconds,
+        config.task_retry_max_seconds,
+      );
+      scheduleTaskRetry(task.id, new Date(Date.now() + delayMs), message);
+      logger.warn(`Task #${task.id} failed with a retryable error, will retry: ${message}`, {
+        attempt: attempts,
+        max_attempts: maxAttempts,
+        retry_in_seconds: Math.round(delayMs / 1000),
+      });
+      return;
+    } else {
+      logger.error(`Task #${task.id} failed: ${message}`, {
+        attempt: attempts,
+        max_attempts: maxAttempts,
+      });
+      updateTaskStatus(task.id, "failed", message);
+      const blocked = failDependents(task.id);
+      if (blocked.length > 0) {
+        logger.warn(`Failed ${blocked.length} task(s) depending on #${task.id}`, {
+          task_ids: blocked,
+        });
+      }
+    }
   } finally {
-    busy = false;
+    clearInterval(leaseTimer);
+  }
+
+  // A recurring series continues whether or not this occurrence succeeded
+  if (task.recurrence) {
+    try {
+      const next = spawnNextOccurrence(task.id);
+      if (next) {
+        logger.info(`Scheduled next occurrence of task #${task.id} as #${next.id}`, {
+          scheduled_at: next.scheduled_at,
+        });
+      }
+    } catch (err) {
+      logger.error(`Failed to schedule next occurrence of task #${task.id}`, {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
   }
 }
 
+/**
+ * Run a task by sending its description to Claude, then act on the markers
+ * in the response. Returns the response text with the markers removed.
+ */
+async function runClaudeTask(
+  task: Task,
+  config: FrylerConfig,
+  signal: AbortSignal,
+  timeoutMs: number | undefined,
+): Promise<string> {
+  const response = await askForTask(
+    task.description || task.title,
+    task.title,
+    task.cwd ?? undefined,
+    {
+      timeoutMs,
+      signal,
+      taskId: task.id,
+      maxBudgetUsd: config.task_budget_usd > 0 ? config.task_budget_usd : undefined,
+    },
+  );
+
+  logger.info(`Task #${task.id} claude response received`, {
+    session_id: response.session_id,
+    cost_usd: response.cost_usd,
+    duration_ms: response.duration_ms,
+    is_error: response.is_error,
+  });
+
+  if (response.is_error) {
+    throw new ClaudeResultError(response.result);
+  }
+
+  const parsed = parseClaudeResponse(response.result);
+
+  // Update or forget existing memories before storing new ones
+  for (const update of parsed.memoryUpdates) {
+    await reviseMemory(update, update.content, `task-${task.id}`, update.reason);
+  }
+  for (const forget of parsed.forgets) {
+    await retractMemory(forget, `task-${task.id}`, forget.reason);
+  }
+
+  // Store any memories found in the response
+  for (const mem of parsed.memories) {
+    logger.info(`Storing memory from task #${task.id}`, {
+      category: mem.category,
+    });
+    await storeMemory(
+      mem.category,
+      mem.content,
+      `task-${task.id}`,
+      { taskId: task.id, prompt: task.description || task.title },
+      mem,
+    );
+  }
+
+  // Create any new tasks found in the response
+  for (const newTask of createTasksFromMarkers(parsed.tasks)) {
+    logger.info(`Created sub-task #${newTask.id} from task #${task.id}`, {
+      title: newTask.title,
+    });
+  }
+
+  // Queue any say actions found in the response
+  for (const say of parsed.says) {
+    await writeSayAction(say.text, say.voice);
+    logger.info(`Queued say action from task #${task.id}`, {
+      text: say.text.slice(0, 50),
+    });
+  }
+  return parsed.cleanText;
+}
+
+/** Run a task with the built-in handler it names (see src/tasks/handlers.ts). */
+async function runHandlerTask(
+  task: Task,
+  config: FrylerConfig,
+  signal: AbortSignal,
+  timeoutMs: number | undefined,
+): Promise<string> {
+  const handler = getTaskHandler(task.handler!);
+  if (!handler) throw new Error(`Unknown task handler "${task.handler}"`);
+  logger.info(`Running built-in handler "${task.handler}" for task #${task.id}`);
+  return handler({ task, config, signal, timeoutMs });
+}
+
+/**
+ * Run a heartbeat and wait until the worker pool is idle, including tasks
+ * that were claimed as earlier ones finished.
+ */
 export async function triggerHeartbeat(): Promise<void> {
   await heartbeatTick();
+  while (running.size > 0) {
+    await Promise.all([...running.values()].map((r) => r.promise));
+  }
 }
 
 export function isHeartbeatRunning(): boolean {
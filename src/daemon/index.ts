@@ -1,7 +1,8 @@
 /**
  * Daemon lifecycle: start, run loop, shutdown.
  *
- * On start: acquire PID, init identity files, init DB, read identity, start heartbeat.
+ * On start: acquire PID, init identity files, init DB, recover orphaned tasks,
+ * sync MEMORY.md, schedule maintenance tasks, read identity, start heartbeat.
  * On stop: stop heartbeat, close DB, remove PID.
  *
  * Container lifecycle is managed externally by the host proxy (src/proxy).
@@ -11,11 +12,19 @@
 import { logger } from "../logger/index.ts";
 import { acquirePid, removePid, isRunning, readPid } from "./pid.ts";
 import { registerSignalHandlers } from "./signals.ts";
-import { startHeartbeat, stopHeartbeat } from "./heartbeat.ts";
+import {
+  startHeartbeat,
+  stopHeartbeat,
+  stopRunningTasks,
+  checkCancelRequests,
+} from "./heartbeat.ts";
+import { recoverOrphanedTasks } from "./lease.ts";
 import { getContainerStatus } from "../container/manager.ts";
 import { getDb, closeDb } from "../db/index.ts";
 import { getConfig } from "../config/index.ts";
 import { readSoul, readMemory, initIdentityFiles } from "../memory/index.ts";
+import { syncMemoryFile, hasSyncChanges } from "../memory/sync.ts";
+import { ensureMaintenanceTasks } from "./maintenance.ts";
 
 let daemonRunning = false;
 
@@ -41,6 +50,9 @@ export async function startDaemon(): Promise<void> {
     await shutdownDaemon();
   });
 
+  // `fryler task cancel` on a running task flags it in the DB, then sends SIGUSR2
+  process.on("SIGUSR2", () => checkCancelRequests());
+
   try {
     // Initialize identity files (copies defaults on first container run)
     initIdentityFiles();
@@ -49,6 +61,52 @@ export async function startDaemon(): Promise<void> {
     getDb();
     logger.info("Database initialized");
 
+    // Tasks left 'active' by a previous run that crashed or was stopped
+    const recovered = recoverOrphanedTasks(
+      config.orphaned_task_policy,
+      config.task_lease_timeout_seconds,
+    );
+    if (recovered.length > 0) {
+      logger.info(`Recovered ${recovered.length} orphaned task(s)`, {
+        policy: config.orphaned_task_policy,
+        task_ids: recovered.map((t) => t.id),
+      });
+    }
+
+    // Pick up hand edits to MEMORY.md made while the daemon was down
+    try {
+      const sync = await syncMemoryFile();
+      if (hasSyncChanges(sync)) {
+        logger.info("Synced MEMORY.md with the memories table", {
+          db_added: sync.dbAdded.length + sync.linked.length,
+          db_updated: sync.dbUpdated.length,
+          db_forgotten: sync.dbForgotten.length,
+          file_added: sync.fileAdded.length,
+          file_updated: sync.fileUpdated.length,
+          file_removed: sync.fileRemoved.length,
+        });
+      }
+      for (const conflict of sync.conflicts) {
+        logger.warn(`Memory #${conflict.id} not synced: ${conflict.reason}`, {
+          file: conflict.file,
+          db: conflict.db,
+        });
+      }
+    } catch (err) {
+      logger.error("Failed to sync MEMORY.md", {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+
+    // Built-in recurring tasks (memory consolidation) follow the config
+    try {
+      ensureMaintenanceTasks(config);
+    } catch (err) {
+      logger.error("Failed to schedule maintenance tasks", {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+
     // Read identity files to verify they exist
     const soul = await readSoul();
     const memory = await readMemory();
@@ -118,6 +176,21 @@ export async function stopDaemon(): Promise<void> {
   }
 }
 
+/**
+ * Tell the running daemon to pick up cancel requests now rather than at the
+ * next lease renewal. Returns false if no daemon is running.
+ */
+export function notifyCancelRequested(): boolean {
+  const pid = readPid();
+  if (pid === null || !isRunning(pid)) return false;
+  try {
+    process.kill(pid, "SIGUSR2");
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Internal shutdown sequence.
  */
@@ -130,6 +203,9 @@ async function shutdownDaemon(): Promise<void> {
   stopHeartbeat();
   logger.info("Heartbeat stopped");
 
+  await stopRunningTasks();
+  logger.info("Running tasks stopped");
+
   closeDb();
   logger.info("Database closed");
 
@@ -0,0 +1,109 @@
+/**
+ * Task leases — tell a task that is really running apart from one left
+ * 'active' by a daemon that crashed or a container that was stopped.
+ *
+ * Whoever runs a task stamps it with a lease owner and refreshes
+ * lease_heartbeat_at while it works. An active task is orphaned when its
+ * lease has gone stale or its owner process is known to be gone.
+ */
+
+import { hostname } from "node:os";
+import {
+  listTasks,
+  updateTaskStatus,
+  failDependents,
+  spawnNextOccurrence,
+  type Task,
+} from "@/db/tasks.ts";
+import { fromSqliteDatetime } from "@/time/index.ts";
+import type { FrylerConfig } from "@/config/index.ts";
+import { isRunning } from "./pid.ts";
+import { logger } from "@/logger/index.ts";
+
+export type OrphanedTaskPolicy = FrylerConfig["orphaned_task_policy"];
+
+/**
+ * host:pid:token — the token distinguishes this process from an earlier one
+ * that had the same PID (the daemon is PID 1 on every container start).
+ */
+const leaseOwner = `${hostname()}:${process.pid}:${Date.now().toString(36)}`;
+
+export function getLeaseOwner(): string {
+  return leaseOwner;
+}
+
+/**
+ * Whether the process named by a lease owner string may still be running.
+ * Owners on other hosts can't be checked and are assumed alive.
+ */
+export function isLeaseOwnerAlive(owner: string): boolean {
+  if (owner === leaseOwner) return true;
+
+  const [host, pidRaw] = owner.split(":");
+  const pid = Number(pidRaw);
+  if (host !== hostname() || !Number.isInteger(pid)) return true;
+  if (pid === process.pid) return false; // our PID, earlier process
+  return isRunning(pid);
+}
+
+/**
+ * Active tasks whose lease is older than `leaseTimeoutSeconds`, missing,
+ * or held by a process that no longer exists.
+ */
+export function findOrphanedTasks(leaseTimeoutSeconds: number): Task[] {
+  const cutoff = Date.now() - leaseTimeoutSeconds * 1000;
+  return listTasks("active").filter((task) => {
+    if (!task.lease_owner || !task.lease_heartbeat_at) return true;
+    if (fromSqliteDatetime(task.lease_heartbeat_at).getTime() < cutoff) return true;
+    return !isLeaseOwnerAlive(task.lease_owner);
+  });
+}
+
+/**
+ * Find orphaned tasks and apply the configured policy to each:
+ * requeue → back to pending, fail → failed (and fail dependents),
+ * interrupt → interrupted, left for `fryler task retry`. Tasks with a
+ * pending cancel request are cancelled whatever the policy.
+ */
+export function recoverOrphanedTasks(
+  policy: OrphanedTaskPolicy,
+  leaseTimeoutSeconds: number,
+): Task[] {
+  const orphaned = findOrphanedTasks(leaseTimeoutSeconds);
+  const reason = "Interrupted: the process running this task stopped before it finished";
+
+  for (const task of orphaned) {
+    logger.warn(`Recovering orphaned task #${task.id}`, {
+      policy,
+      lease_owner: task.lease_owner,
+      lease_heartbeat_at: task.lease_heartbeat_at,
+    });
+
+    // The user asked for this one to stop, so it isn't brought back
+    const cancelled = task.cancel_requested_at !== null;
+    if (cancelled) {
+      updateTaskStatus(task.id, "cancelled", "Cancelled while running");
+      failDependents(task.id);
+    } else {
+      switch (policy) {
+        case "requeue":
+          updateTaskStatus(task.id, "pending");
+          break;
+        case "fail":
+          updateTaskStatus(task.id, "failed", reason);
+          failDependents(task.id);
+          break;
+        case "interrupt":
+          updateTaskStatus(task.id, "interrupted", reason);
+          break;
+      }
+    }
+
+    // A recurring series shouldn't end because one occurrence was cut short
+    if ((cancelled || policy !== "requeue") && task.recurrence) {
+      spawnNextOccurrence(task.id);
+    }
+  }
+
+  return orphaned;
+}
@@ -0,0 +1,82 @@
+/**
+ * Built-in maintenance tasks — recurring tasks that fryler schedules for
+ * itself and runs with a built-in handler (see src/tasks/handlers.ts).
+ *
+ * Each one is kept in step with its config setting at daemon startup: created
+ * when missing, moved to the new schedule when the setting changed, and
+ * cancelled when the setting is turned off.
+ */
+
+import {
+  cancelTask,
+  createTask,
+  getOpenHandlerTask,
+  getTask,
+  rescheduleRecurrence,
+  type Task,
+} from "@/db/tasks.ts";
+import type { FrylerConfig } from "@/config/index.ts";
+import { isValidCron } from "@/tasks/recurrence.ts";
+import { CONSOLIDATE_MEMORIES } from "@/tasks/handlers.ts";
+import { logger } from "@/logger/index.ts";
+
+interface MaintenanceTask {
+  handler: string;
+  title: string;
+  /** Cron expression from the config; "" turns the task off. */
+  schedule: (config: FrylerConfig) => string;
+}
+
+const MAINTENANCE_TASKS: MaintenanceTask[] = [
+  {
+    handler: CONSOLIDATE_MEMORIES,
+    title: "Consolidate memories",
+    schedule: (config) => config.memory_consolidation_schedule,
+  },
+];
+
+/**
+ * Create, reschedule or cancel each maintenance task to match the config.
+ * Returns the open maintenance tasks afterwards.
+ */
+export function ensureMaintenanceTasks(config: FrylerConfig): Task[] {
+  const open: Task[] = [];
+  for (const maintenance of MAINTENANCE_TASKS) {
+    const schedule = maintenance.schedule(config).trim();
+    const existing = getOpenHandlerTask(maintenance.handler);
+
+    if (!schedule) {
+      if (existing && cancelTask(existing.id)) {
+        logger.info(`Cancelled maintenance task #${existing.id}: ${maintenance.title}`);
+      }
+      continue;
+    }
+    if (!isValidCron(schedule)) {
+      logger.warn(`Invalid schedule for "${maintenance.title}": ${schedule}`);
+      if (existing) open.push(existing);
+      continue;
+    }
+
+    if (!existing) {
+      const task = createTask({
+        title: maintenance.title,
+        handler: maintenance.handler,
+        recurrence: schedule,
+        priority: 5,
+      });
+      logger.info(`Scheduled maintenance task #${task.id}: ${task.title}`, {
+        recurrence: schedule,
+        scheduled_at: task.scheduled_at,
+      });
+      open.push(task);
+    } else if (existing.recurrence !== schedule && rescheduleRecurrence(existing.id, schedule)) {
+      logger.info(`Rescheduled maintenance task #${existing.id}: ${maintenance.title}`, {
+        recurrence: schedule,
+      });
+      open.push(getTask(existing.id) ?? existing);
+    } else {
+      open.push(existing);
+    }
+  }
+  return open;
+}
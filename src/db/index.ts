@@ -3,6 +3,16 @@ import { mkdirSync } from "fs";
 import { join } from "path";
 import { homedir } from "os";
 
+/** Every value the tasks.status CHECK constraint allows. */
+export const TASK_STATUSES = [
+  "pending",
+  "active",
+  "completed",
+  "failed",
+  "interrupted",
+  "cancelled",
+] as const;
+
 let db: Database | null = null;
 let dbPathOverride: string | null = null;
 
@@ -20,18 +30,12 @@ export function getDb(): Database {
   db.exec("PRAGMA journal_mode = WAL;");
 
   db.exec(`
-    CREATE TABLE IF NOT EXISTS tasks (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      title TEXT NOT NULL,
-      description TEXT NOT NULL DEFAULT '',
-      status TEXT NOT NULL DEFAULT 'pending' CHECK(status IN ('pending','active','completed','failed')),
-      priority INTEGER NOT NULL DEFAULT 3 CHECK(priority BETWEEN 1 AND 5),
-      scheduled_at TEXT,
-      created_at TEXT NOT NULL DEFAULT (datetime('now')),
-      updated_at TEXT NOT NULL DEFAULT (datetime('now')),
-      completed_at TEXT,
-      result TEXT,
-      cwd TEXT
+    ${tasksTableSql("tasks")}
+
+    CREATE TABLE IF NOT EXISTS task_dependencies (
+      task_id INTEGER NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+      depends_on_id INTEGER NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+      PRIMARY KEY (task_id, depends_on_id)
     );
 
     CREATE TABLE IF NOT EXISTS memories (
@@ -39,27 +43,232 @@ export function getDb(): Database {
       category TEXT NOT NULL,
       content TEXT NOT NULL,
       source TEXT,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      pinned INTEGER NOT NULL DEFAULT 0,
+      superseded_by INTEGER REFERENCES memories(id) ON DELETE SET NULL,
+      superseded_at TEXT,
+      forgotten_at TEXT,
+      synced_content TEXT,
+      session_id INTEGER REFERENCES sessions(id) ON DELETE SET NULL,
+      task_id INTEGER REFERENCES tasks(id) ON DELETE SET NULL,
+      prompt_excerpt TEXT,
+      expires_at TEXT,
+      archived_at TEXT
+    );
+
+    CREATE TABLE IF NOT EXISTS memory_audit (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      memory_id INTEGER REFERENCES memories(id) ON DELETE SET NULL,
+      action TEXT NOT NULL CHECK(action IN ('update', 'forget')),
+      source TEXT,
+      reason TEXT,
+      old_content TEXT,
+      new_content TEXT,
       created_at TEXT NOT NULL DEFAULT (datetime('now'))
     );
 
+    CREATE INDEX IF NOT EXISTS idx_memory_audit_memory_id ON memory_audit(memory_id);
+
     CREATE TABLE IF NOT EXISTS sessions (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
       claude_session_id TEXT NOT NULL UNIQUE,
       title TEXT,
       started_at TEXT NOT NULL DEFAULT (datetime('now')),
       last_active_at TEXT NOT NULL DEFAULT (datetime('now')),
-      message_count INTEGER NOT NULL DEFAULT 0
+      message_count INTEGER NOT NULL DEFAULT 0,
+      kind TEXT,
+      archived_at TEXT,
+      parent_session_id INTEGER REFERENCES sessions(id) ON DELETE SET NULL,
+      is_fork INTEGER NOT NULL DEFAULT 0
     );
+
+    CREATE TABLE IF NOT EXISTS session_tags (
+      session_id INTEGER NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+      tag TEXT NOT NULL,
+      PRIMARY KEY (session_id, tag)
+    );
+
+    CREATE TABLE IF NOT EXISTS messages (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      session_id INTEGER NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+      role TEXT NOT NULL CHECK(role IN ('user', 'assistant', 'tool')),
+      content TEXT NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_messages_session_id ON messages(session_id);
+
+    CREATE TABLE IF NOT EXISTS claude_runs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      claude_session_id TEXT,
+      task_id INTEGER REFERENCES tasks(id) ON DELETE SET NULL,
+      source TEXT NOT NULL,
+      model TEXT,
+      cost_usd REAL NOT NULL DEFAULT 0,
+      duration_ms INTEGER NOT NULL DEFAULT 0,
+      num_turns INTEGER NOT NULL DEFAULT 0,
+      is_error INTEGER NOT NULL DEFAULT 0,
+      created_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_claude_runs_created_at ON claude_runs(created_at);
   `);
 
-  // Migration: add cwd column to tasks for existing databases
+  // Migrations: add columns introduced after the initial schema
+  addColumn(db, "tasks", "cwd TEXT");
+  addColumn(db, "tasks", "recurrence TEXT");
+  addColumn(db, "tasks", "paused INTEGER NOT NULL DEFAULT 0");
+  addColumn(db, "tasks", "max_attempts INTEGER");
+  addColumn(db, "tasks", "attempt_count INTEGER NOT NULL DEFAULT 0");
+  addColumn(db, "tasks", "next_attempt_at TEXT");
+  addColumn(db, "tasks", "lease_owner TEXT");
+  addColumn(db, "tasks", "lease_heartbeat_at TEXT");
+  addColumn(db, "tasks", "timeout_seconds INTEGER");
+  addColumn(db, "tasks", "cancel_requested_at TEXT");
+  addColumn(db, "tasks", "handler TEXT");
+  addColumn(db, "tasks", "series_id INTEGER");
+  addColumn(db, "memories", "pinned INTEGER NOT NULL DEFAULT 0");
+  addColumn(db, "memories", "superseded_by INTEGER REFERENCES memories(id) ON DELETE SET NULL");
+  addColumn(db, "memories", "superseded_at TEXT");
+  addColumn(db, "memories", "forgotten_at TEXT");
+  addColumn(db, "memories", "synced_content TEXT");
+  addColumn(db, "memories", "session_id INTEGER REFERENCES sessions(id) ON DELETE SET NULL");
+  addColumn(db, "memories", "task_id INTEGER REFERENCES tasks(id) ON DELETE SET NULL");
+  addColumn(db, "memories", "prompt_excerpt TEXT");
+  addColumn(db, "memories", "expires_at TEXT");
+  addColumn(db, "memories", "archived_at TEXT");
+  addColumn(db, "sessions", "kind TEXT");
+  addColumn(db, "sessions", "archived_at TEXT");
+  addColumn(db, "sessions", "parent_session_id INTEGER REFERENCES sessions(id) ON DELETE SET NULL");
+  addColumn(db, "sessions", "is_fork INTEGER NOT NULL DEFAULT 0");
+
+  // Must run after the column migrations so the copy sees every column
+  migrateTaskStatuses(db);
+
+  migrateMemoriesFts(db);
+
+  migrateSessionKinds(db);
+
+  // Forks made before is_fork existed still have their parent link
+  db.exec("UPDATE sessions SET is_fork = 1 WHERE parent_session_id IS NOT NULL AND is_fork = 0");
+
+  // Enforce the REFERENCES clauses only now: with foreign keys on, the table
+  // rebuild in migrateTaskStatuses would run their ON DELETE actions
+  db.exec("PRAGMA foreign_keys = ON;");
+
+  return db;
+}
+
+function tasksTableSql(name: string): string {
+  const statuses = TASK_STATUSES.map((s) => `'${s}'`).join(",");
+  return `CREATE TABLE IF NOT EXISTS ${name} (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      title TEXT NOT NULL,
+      description TEXT NOT NULL DEFAULT '',
+      status TEXT NOT NULL DEFAULT 'pending' CHECK(status IN (${statuses})),
+      priority INTEGER NOT NULL DEFAULT 3 CHECK(priority BETWEEN 1 AND 5),
+      scheduled_at TEXT,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+      completed_at TEXT,
+      result TEXT,
+      cwd TEXT,
+      recurrence TEXT,
+      paused INTEGER NOT NULL DEFAULT 0,
+      max_attempts INTEGER,
+      attempt_count INTEGER NOT NULL DEFAULT 0,
+      next_attempt_at TEXT,
+      lease_owner TEXT,
+      lease_heartbeat_at TEXT,
+      timeout_seconds INTEGER,
+      cancel_requested_at TEXT,
+      handler TEXT,
+      series_id INTEGER
+    );`;
+}
+
+/**
+ * SQLite can't alter a CHECK constraint, so when a new task status is added
+ * the tasks table is rebuilt with the current constraint and its rows copied over.
+ */
+function migrateTaskStatuses(db: Database): void {
+  const row = db
+    .prepare("SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'tasks'")
+    .get() as { sql: string } | null;
+  if (!row || TASK_STATUSES.every((s) => row.sql.includes(`'${s}'`))) return;
+
+  const columns = (db.prepare("PRAGMA table_info(tasks)").all() as { name: string }[])
+    .map((c) => c.name)
+    .join(", ");
+
+  db.transaction(() => {
+    db.exec("DROP TABLE IF EXISTS tasks_new");
+    db.exec(tasksTableSql("tasks_new"));
+    db.exec(`INSERT INTO tasks_new (${columns}) SELECT ${columns} FROM tasks`);
+    db.exec("DROP TABLE tasks");
+    db.exec("ALTER TABLE tasks_new RENAME TO tasks");
+  })();
+}
+
+/**
+ * Sessions used to carry their kind as a title prefix ("[chat] ..."). Move
+ * the prefix into the kind column, leaving the rest of the title as is.
+ */
+function migrateSessionKinds(db: Database): void {
+  const stmt = db.prepare(
+    `UPDATE sessions
+     SET kind = $kind, title = substr(title, length($prefix) + 1)
+     WHERE kind IS NULL AND substr(title, 1, length($prefix)) = $prefix`,
+  );
+  db.transaction(() => {
+    for (const kind of ["cli", "chat", "voice"]) {
+      stmt.run({ $kind: kind, $prefix: `[${kind}] ` });
+    }
+  })();
+}
+
+/**
+ * Full-text index over memories.content (porter stemming), kept in sync by
+ * triggers. Rows that existed before the index was created are backfilled once.
+ */
+function migrateMemoriesFts(db: Database): void {
+  const exists = db
+    .prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'memories_fts'")
+    .get();
+
+  db.exec(`
+    CREATE VIRTUAL TABLE IF NOT EXISTS memories_fts USING fts5(
+      content,
+      content = 'memories',
+      content_rowid = 'id',
+      tokenize = 'porter unicode61'
+    );
+
+    CREATE TRIGGER IF NOT EXISTS memories_fts_insert AFTER INSERT ON memories BEGIN
+      INSERT INTO memories_fts (rowid, content) VALUES (new.id, new.content);
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS memories_fts_delete AFTER DELETE ON memories BEGIN
+      INSERT INTO memories_fts (memories_fts, rowid, content) VALUES ('delete', old.id, old.content);
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS memories_fts_update AFTER UPDATE OF content ON memories BEGIN
+      INSERT INTO memories_fts (memories_fts, rowid, content) VALUES ('delete', old.id, old.content);
+      INSERT INTO memories_fts (rowid, content) VALUES (new.id, new.content);
+    END;
+  `);
+
+  if (!exists) {
+    db.exec("INSERT INTO memories_fts (memories_fts) VALUES ('rebuild')");
+  }
+}
+
+function addColumn(db: Database, table: string, definition: string): void {
   try {
-    db.exec("ALTER TABLE tasks ADD COLUMN cwd TEXT");
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${definition}`);
   } catch {
     // Column already exists
   }
-
-  return db;
 }
 
 export function closeDb(): void {
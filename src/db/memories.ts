@@ -1,4 +1,5 @@
 import { getDb } from "./index.ts";
+import { fromSqliteDatetime, parseDuration, toSqliteDatetime } from "@/time/index.ts";
 
 export interface Memory {
   id: number;
@@ -6,18 +7,93 @@ export interface Memory {
   content: string;
   source: string | null;
   created_at: string;
+  /** 1 when the memory is injected into every prompt regardless of relevance. */
+  pinned: number;
+  /** The newer memory that replaced this one; superseded memories are kept as history only. */
+  superseded_by: number | null;
+  superseded_at: string | null;
+  /** When `fryler memory forget` hid this memory; null while it's remembered. */
+  forgotten_at: string | null;
+  /** Content as of the last time MEMORY.md and this row agreed; null if never written to the file. */
+  synced_content: string | null;
+  /** The tracked conversation the memory was learned in. */
+  session_id: number | null;
+  /** The task whose run produced the memory. */
+  task_id: number | null;
+  /** The start of the message or task description that led to the memory. */
+  prompt_excerpt: string | null;
+  /** When the memory stops being true ("travelling until Friday"); null if it never does. */
+  expires_at: string | null;
+  /** When housekeeping archived the memory after it expired. */
+  archived_at: string | null;
 }
 
-export function createMemory(category: string, content: string, source?: string): Memory {
+/** Where a memory came from, beyond its free-text source. */
+export type MemoryProvenance = Partial<Pick<Memory, "session_id" | "task_id" | "prompt_excerpt">>;
+
+export interface CreateMemoryOptions extends MemoryProvenance {
+  /** When the memory stops being true: a date/datetime string or a Date. */
+  expires_at?: string | Date | null;
+  /** How long the memory stays true from now ("12h", "3d"); used when expires_at isn't given. */
+  ttl?: string | null;
+}
+
+/** A memory is current until it's superseded, forgotten or past its expiry. */
+const CURRENT =
+  "superseded_by IS NULL AND forgotten_at IS NULL AND archived_at IS NULL " +
+  "AND (expires_at IS NULL OR expires_at > datetime('now'))";
+
+/** The JS counterpart of CURRENT, for a row that's already been loaded. */
+export function isMemoryCurrent(memory: Memory, now: Date = new Date()): boolean {
+  return (
+    !memory.superseded_by &&
+    !memory.forgotten_at &&
+    !memory.archived_at &&
+    !isMemoryExpired(memory, now)
+  );
+}
+
+export function isMemoryExpired(memory: Memory, now: Date = new Date()): boolean {
+  return memory.expires_at !== null && fromSqliteDatetime(memory.expires_at) <= now;
+}
+
+/**
+ * Resolve an expiry given as a date or a duration from now into the stored
+ * SQLite datetime. Throws if either is unparseable.
+ */
+export function resolveMemoryExpiry(
+  expiresAt: string | Date | null | undefined,
+  ttl: string | null | undefined,
+  now: Date = new Date(),
+): string | null {
+  if (expiresAt) {
+    const date = typeof expiresAt === "string" ? new Date(expiresAt) : expiresAt;
+    if (isNaN(date.getTime())) throw new Error(`Invalid expiry "${String(expiresAt)}"`);
+    return toSqliteDatetime(date);
+  }
+  if (ttl) return toSqliteDatetime(new Date(now.getTime() + parseDuration(ttl)));
+  return null;
+}
+
+export function createMemory(
+  category: string,
+  content: string,
+  source?: string,
+  options: CreateMemoryOptions = {},
+): Memory {
   const db = getDb();
   const stmt = db.prepare(
-    `INSERT INTO memories (category, content, source)
-     VALUES ($category, $content, $source)`,
+    `INSERT INTO memories (category, content, source, session_id, task_id, prompt_excerpt, expires_at)
+     VALUES ($category, $content, $source, $session_id, $task_id, $prompt_excerpt, $expires_at)`,
   );
   const result = stmt.run({
     $category: category,
     $content: content,
     $source: source ?? null,
+    $session_id: options.session_id ?? null,
+    $task_id: options.task_id ?? null,
+    $prompt_excerpt: options.prompt_excerpt ?? null,
+    $expires_at: resolveMemoryExpiry(options.expires_at, options.ttl),
   });
   const id = Number(result.lastInsertRowid);
   return db.prepare("SELECT * FROM memories WHERE id = $id").get({
@@ -25,17 +101,274 @@ export function createMemory(category: string, content: string, source?: string)
   }) as Memory;
 }
 
-export function listMemories(category?: string): Memory[] {
+export function getMemory(id: number): Memory | null {
   const db = getDb();
-  if (category) {
-    const stmt = db.prepare("SELECT * FROM memories WHERE category = $category");
-    return stmt.all({ $category: category }) as Memory[];
-  }
-  return db.prepare("SELECT * FROM memories").all() as Memory[];
+  return (db.prepare("SELECT * FROM memories WHERE id = $id").get({ $id: id }) as Memory) ?? null;
+}
+
+export interface ListMemoriesOptions {
+  source?: string;
+  pinned?: boolean;
+  /** Also list superseded and forgotten memories. */
+  includeInactive?: boolean;
+  limit?: number;
+}
+
+/** Current memories, oldest first, optionally in one category. */
+export function listMemories(category?: string, options: ListMemoriesOptions = {}): Memory[] {
+  const db = getDb();
+  const stmt = db.prepare(
+    `SELECT * FROM memories
+     WHERE ($category IS NULL OR category = $category)
+       AND ($source IS NULL OR source = $source)
+       AND ($pinned IS NULL OR pinned = $pinned)
+       AND ($all = 1 OR (${CURRENT}))
+     ORDER BY id
+     LIMIT $limit`,
+  );
+  return stmt.all({
+    $category: category ?? null,
+    $source: options.source ?? null,
+    $pinned: options.pinned === undefined ? null : options.pinned ? 1 : 0,
+    $all: options.includeInactive ? 1 : 0,
+    $limit: options.limit ?? -1,
+  }) as Memory[];
+}
+
+export interface UpdateMemoryInput {
+  category?: string;
+  content?: string;
+}
+
+/** Change a memory's content and/or category. Returns null if there's no such memory. */
+export function updateMemory(id: number, input: UpdateMemoryInput): Memory | null {
+  const db = getDb();
+  const stmt = db.prepare(
+    `UPDATE memories
+     SET category = COALESCE($category, category), content = COALESCE($content, content)
+     WHERE id = $id
+     RETURNING *`,
+  );
+  return (
+    (stmt.get({
+      $id: id,
+      $category: input.category ?? null,
+      $content: input.content ?? null,
+    }) as Memory | null) ?? null
+  );
+}
+
+/**
+ * Soft-delete a memory: it stops being searched or injected but stays in
+ * the DB so `restoreMemory` can bring it back. Returns null if there's no
+ * such memory or it was already forgotten.
+ */
+export function forgetMemory(id: number): Memory | null {
+  const db = getDb();
+  const stmt = db.prepare(
+    `UPDATE memories SET forgotten_at = datetime('now')
+     WHERE id = $id AND forgotten_at IS NULL
+     RETURNING *`,
+  );
+  return (stmt.get({ $id: id }) as Memory | null) ?? null;
+}
+
+/** Undo `forgetMemory`. Returns null if the memory isn't forgotten. */
+export function restoreMemory(id: number): Memory | null {
+  const db = getDb();
+  const stmt = db.prepare(
+    `UPDATE memories SET forgotten_at = NULL
+     WHERE id = $id AND forgotten_at IS NOT NULL
+     RETURNING *`,
+  );
+  return (stmt.get({ $id: id }) as Memory | null) ?? null;
+}
+
+/**
+ * Mark `oldId` as replaced by `newId`. A pinned memory passes its pin on to
+ * the replacement.
+ */
+export function supersedeMemory(oldId: number, newId: number): void {
+  const db = getDb();
+  db.transaction(() => {
+    const old = db
+      .prepare(
+        `UPDATE memories SET superseded_by = $new_id, superseded_at = datetime('now')
+         WHERE id = $old_id RETURNING pinned`,
+      )
+      .get({ $old_id: oldId, $new_id: newId }) as { pinned: number } | null;
+    if (old?.pinned) {
+      db.prepare("UPDATE memories SET pinned = 1 WHERE id = $id").run({ $id: newId });
+    }
+  })();
+}
+
+/** Earlier versions a memory replaced, newest first. */
+export function listSupersededMemories(id: number): Memory[] {
+  const db = getDb();
+  return db
+    .prepare(
+      `WITH RECURSIVE history(id) AS (
+         SELECT id FROM memories WHERE superseded_by = $id
+         UNION
+         SELECT m.id FROM memories m JOIN history h ON m.superseded_by = h.id
+       )
+       SELECT m.* FROM memories m JOIN history h ON h.id = m.id
+       ORDER BY m.superseded_at DESC, m.id DESC`,
+    )
+    .all({ $id: id }) as Memory[];
+}
+
+export interface MemorySearchOptions {
+  category?: string;
+  source?: string;
+  limit?: number;
+  /** Match memories containing any of the words rather than all of them. */
+  matchAny?: boolean;
+  /** Markers wrapped around matched terms in `highlighted` (default "[" and "]"). */
+  highlight?: [open: string, close: string];
+  /** Also search superseded and forgotten memories. */
+  includeInactive?: boolean;
+}
+
+export interface MemorySearchResult extends Memory {
+  /** BM25 score; lower is a better match. */
+  rank: number;
+  /** The content with matched terms wrapped in the highlight markers. */
+  highlighted: string;
+}
+
+/** Cap on query words, so a long task description stays a cheap query. */
+const MAX_QUERY_WORDS = 64;
+
+/**
+ * Turn free text into an FTS5 query matching rows that contain every word
+ * (or any word), in any order. Words are quoted so punctuation can't be read
+ * as FTS syntax. Returns null when the text has no searchable words.
+ */
+function toFtsQuery(text: string, matchAny = false): string | null {
+  const words = text.match(/[\p{L}\p{N}_]+/gu);
+  if (!words) return null;
+  const unique = [...new Set(words.map((w) => w.toLowerCase()))].slice(0, MAX_QUERY_WORDS);
+  return unique.map((w) => `"${w}"`).join(matchAny ? " OR " : " ");
+}
+
+export function countMemories(): number {
+  const db = getDb();
+  const row = db.prepare(`SELECT COUNT(*) AS n FROM memories WHERE ${CURRENT}`).get();
+  return (row as { n: number }).n;
 }
 
-export function searchMemories(query: string): Memory[] {
+export function listPinnedMemories(): Memory[] {
   const db = getDb();
-  const stmt = db.prepare("SELECT * FROM memories WHERE content LIKE $query");
-  return stmt.all({ $query: `%${query}%` }) as Memory[];
+  return db
+    .prepare(`SELECT * FROM memories WHERE pinned = 1 AND ${CURRENT} ORDER BY id`)
+    .all() as Memory[];
+}
+
+export interface MemoryAudit {
+  id: number;
+  memory_id: number | null;
+  action: "update" | "forget";
+  /** Who made the change: repl, cli-ask, task-12, ... */
+  source: string | null;
+  reason: string | null;
+  old_content: string | null;
+  new_content: string | null;
+  created_at: string;
+}
+
+export type MemoryAuditInput = Omit<MemoryAudit, "id" | "created_at">;
+
+export function recordMemoryAudit(input: MemoryAuditInput): MemoryAudit {
+  const db = getDb();
+  const stmt = db.prepare(
+    `INSERT INTO memory_audit (memory_id, action, source, reason, old_content, new_content)
+     VALUES ($memory_id, $action, $source, $reason, $old_content, $new_content)
+     RETURNING *`,
+  );
+  return stmt.get({
+    $memory_id: input.memory_id,
+    $action: input.action,
+    $source: input.source,
+    $reason: input.reason,
+    $old_content: input.old_content,
+    $new_content: input.new_content,
+  }) as MemoryAudit;
+}
+
+/** Audited changes to a memory, oldest first. */
+export function listMemoryAudit(memoryId: number): MemoryAudit[] {
+  const db = getDb();
+  return db
+    .prepare("SELECT * FROM memory_audit WHERE memory_id = $id ORDER BY id")
+    .all({ $id: memoryId }) as MemoryAudit[];
+}
+
+/**
+ * Archive current memories whose expiry has passed, so they stay in the DB as
+ * history. Returns the memories archived.
+ */
+export function archiveExpiredMemories(): Memory[] {
+  const db = getDb();
+  return db
+    .prepare(
+      `UPDATE memories SET archived_at = datetime('now')
+       WHERE archived_at IS NULL AND expires_at IS NOT NULL AND expires_at <= datetime('now')
+         AND superseded_by IS NULL AND forgotten_at IS NULL
+       RETURNING *`,
+    )
+    .all() as Memory[];
+}
+
+/** Record that MEMORY.md now holds `content` for this memory. */
+export function markMemorySynced(id: number, content: string | null): void {
+  const db = getDb();
+  db.prepare("UPDATE memories SET synced_content = $content WHERE id = $id").run({
+    $id: id,
+    $content: content,
+  });
+}
+
+export function setMemoryPinned(id: number, pinned: boolean): boolean {
+  const db = getDb();
+  const stmt = db.prepare("UPDATE memories SET pinned = $pinned WHERE id = $id");
+  return stmt.run({ $id: id, $pinned: pinned ? 1 : 0 }).changes > 0;
+}
+
+/**
+ * Full-text search over memory content, best matches first. Stemmed, so
+ * "running" finds "runs"; word order doesn't matter.
+ */
+export function searchMemories(
+  query: string,
+  options: MemorySearchOptions = {},
+): MemorySearchResult[] {
+  const match = toFtsQuery(query, options.matchAny);
+  if (!match) return [];
+
+  const [open, close] = options.highlight ?? ["[", "]"];
+  const db = getDb();
+  const stmt = db.prepare(
+    `SELECT m.*,
+            bm25(memories_fts) AS rank,
+            highlight(memories_fts, 0, $open, $close) AS highlighted
+     FROM memories_fts
+     JOIN memories m ON m.id = memories_fts.rowid
+     WHERE memories_fts MATCH $match
+       AND ($category IS NULL OR m.category = $category)
+       AND ($source IS NULL OR m.source = $source)
+       AND ($all = 1 OR (${CURRENT}))
+     ORDER BY rank
+     LIMIT $limit`,
+  );
+  return stmt.all({
+    $match: match,
+    $open: open,
+    $close: close,
+    $category: options.category ?? null,
+    $source: options.source ?? null,
+    $all: options.includeInactive ? 1 : 0,
+    $limit: options.limit ?? -1,
+  }) as MemorySearchResult[];
 }
@@ -0,0 +1,49 @@
+import { getDb } from "./index.ts";
+
+export type MessageRole = "user" | "assistant" | "tool";
+
+/** One line of a session's transcript. */
+export interface Message {
+  id: number;
+  session_id: number;
+  role: MessageRole;
+  /** The prompt, the cleaned response, or a one-line summary of a tool call. */
+  content: string;
+  created_at: string;
+}
+
+export interface Exchange {
+  prompt: string;
+  /** Summaries of the tools Claude used while answering, in order. */
+  tools?: string[];
+  /** The response with markers stripped. */
+  response: string;
+}
+
+export function addMessage(sessionId: number, role: MessageRole, content: string): Message {
+  const db = getDb();
+  const stmt = db.prepare(
+    `INSERT INTO messages (session_id, role, content)
+     VALUES ($session_id, $role, $content)
+     RETURNING *`,
+  );
+  return stmt.get({ $session_id: sessionId, $role: role, $content: content }) as Message;
+}
+
+/** Record a prompt, the tool calls made while answering it, and the response. */
+export function recordExchange(sessionId: number, exchange: Exchange): void {
+  const db = getDb();
+  db.transaction(() => {
+    addMessage(sessionId, "user", exchange.prompt);
+    for (const tool of exchange.tools ?? []) addMessage(sessionId, "tool", tool);
+    addMessage(sessionId, "assistant", exchange.response);
+  })();
+}
+
+/** A session's transcript, oldest first. */
+export function listMessages(sessionId: number): Message[] {
+  const db = getDb();
+  return db
+    .prepare("SELECT * FROM messages WHERE session_id = $session_id ORDER BY id")
+    .all({ $session_id: sessionId }) as Message[];
+}
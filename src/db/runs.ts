@@ -0,0 +1,125 @@
+import { getDb } from "./index.ts";
+import { toSqliteDatetime } from "@/time/index.ts";
+
+/** What started a claude invocation. */
+export type RunSource = "cli" | "chat" | "voice" | "heartbeat";
+
+/** One claude CLI invocation and what it cost. */
+export interface ClaudeRun {
+  id: number;
+  claude_session_id: string | null;
+  task_id: number | null;
+  source: RunSource;
+  model: string | null;
+  cost_usd: number;
+  duration_ms: number;
+  num_turns: number;
+  is_error: number;
+  created_at: string;
+}
+
+export interface RecordRunInput {
+  claude_session_id?: string | null;
+  task_id?: number | null;
+  source: RunSource;
+  model?: string | null;
+  cost_usd?: number;
+  duration_ms?: number;
+  num_turns?: number;
+  is_error?: boolean;
+}
+
+export function recordRun(input: RecordRunInput): ClaudeRun {
+  const db = getDb();
+  const stmt = db.prepare(
+    `INSERT INTO claude_runs
+       (claude_session_id, task_id, source, model, cost_usd, duration_ms, num_turns, is_error)
+     VALUES ($claude_session_id, $task_id, $source, $model, $cost_usd, $duration_ms, $num_turns, $is_error)
+     RETURNING *`,
+  );
+  return stmt.get({
+    $claude_session_id: input.claude_session_id || null,
+    $task_id: input.task_id ?? null,
+    $source: input.source,
+    $model: input.model ?? null,
+    $cost_usd: input.cost_usd ?? 0,
+    $duration_ms: Math.round(input.duration_ms ?? 0),
+    $num_turns: input.num_turns ?? 0,
+    $is_error: input.is_error ? 1 : 0,
+  }) as ClaudeRun;
+}
+
+export type CostGrouping = "source" | "task" | "session" | "model" | "day";
+
+export interface CostReportRow {
+  /** Group value (task id, session id, model, local date or source); null for unattributed runs. */
+  key: string | null;
+  /** Human-readable name for the group, e.g. the task or session title. */
+  label: string | null;
+  runs: number;
+  cost_usd: number;
+  duration_ms: number;
+  num_turns: number;
+  errors: number;
+}
+
+const GROUP_SQL: Record<CostGrouping, { key: string; label: string }> = {
+  source: { key: "r.source", label: "NULL" },
+  task: { key: "r.task_id", label: "MAX(t.title)" },
+  session: { key: "r.claude_session_id", label: "MAX(s.title)" },
+  model: { key: "r.model", label: "NULL" },
+  day: { key: "date(r.created_at, 'localtime')", label: "NULL" },
+};
+
+/**
+ * Totals of recorded runs since `since` (all time if omitted), grouped by `by`.
+ * Days are ordered oldest first; every other grouping is ordered by cost.
+ */
+export function getCostReport(by: CostGrouping, since?: Date): CostReportRow[] {
+  const db = getDb();
+  const group = GROUP_SQL[by];
+  const order = by === "day" ? "key" : "cost_usd DESC, key";
+  const stmt = db.prepare(
+    `SELECT CAST(${group.key} AS TEXT) AS key,
+            ${group.label} AS label,
+            COUNT(*) AS runs,
+            COALESCE(SUM(r.cost_usd), 0) AS cost_usd,
+            COALESCE(SUM(r.duration_ms), 0) AS duration_ms,
+            COALESCE(SUM(r.num_turns), 0) AS num_turns,
+            COALESCE(SUM(r.is_error), 0) AS errors
+     FROM claude_runs r
+     LEFT JOIN tasks t ON t.id = r.task_id
+     LEFT JOIN sessions s ON s.claude_session_id = r.claude_session_id
+     WHERE $since IS NULL OR r.created_at >= $since
+     GROUP BY ${group.key}
+     ORDER BY ${order}`,
+  );
+  return stmt.all({ $since: since ? toSqliteDatetime(since) : null }) as CostReportRow[];
+}
+
+/** Total spend since `since` (all time if omitted). */
+export function getTotalCost(since?: Date): number {
+  const db = getDb();
+  const row = db
+    .prepare(
+      `SELECT COALESCE(SUM(cost_usd), 0) AS total FROM claude_runs
+       WHERE $since IS NULL OR created_at >= $since`,
+    )
+    .get({ $since: since ? toSqliteDatetime(since) : null }) as { total: number };
+  return row.total;
+}
+
+/** Totals of every run recorded against one task. */
+export function getTaskRunTotals(taskId: number): Omit<CostReportRow, "key" | "label"> {
+  const db = getDb();
+  return db
+    .prepare(
+      `SELECT COUNT(*) AS runs,
+              COALESCE(SUM(cost_usd), 0) AS cost_usd,
+              COALESCE(SUM(duration_ms), 0) AS duration_ms,
+              COALESCE(SUM(num_turns), 0) AS num_turns,
+              COALESCE(SUM(is_error), 0) AS errors
+       FROM claude_runs WHERE task_id = $task_id`,
+    )
+    .get({ $task_id: taskId }) as Omit<CostReportRow, "key" | "label">;
+}
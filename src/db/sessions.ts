@@ -1,5 +1,9 @@
 import { getDb } from "./index.ts";
 
+/** What started a session: a CLI command, a heartbeat task or an API caller. */
+export const SESSION_KINDS = ["cli", "chat", "voice", "heartbeat", "api"] as const;
+export type SessionKind = (typeof SESSION_KINDS)[number];
+
 export interface Session {
   id: number;
   claude_session_id: string;
@@ -7,17 +11,35 @@ export interface Session {
   started_at: string;
   last_active_at: string;
   message_count: number;
+  kind: SessionKind | null;
+  archived_at: string | null;
+  /** The session this one was forked from; null once that session is deleted. */
+  parent_session_id: number | null;
+  /** 1 for a fork, whether or not its parent still exists. */
+  is_fork: number;
+}
+
+export function isSessionKind(value: string): value is SessionKind {
+  return (SESSION_KINDS as readonly string[]).includes(value);
 }
 
-export function createSession(claude_session_id: string, title?: string): Session {
+export function createSession(
+  claude_session_id: string,
+  title?: string,
+  kind?: SessionKind,
+  parent_session_id?: number,
+): Session {
   const db = getDb();
   const stmt = db.prepare(
-    `INSERT INTO sessions (claude_session_id, title)
-     VALUES ($claude_session_id, $title)`,
+    `INSERT INTO sessions (claude_session_id, title, kind, parent_session_id, is_fork)
+     VALUES ($claude_session_id, $title, $kind, $parent_session_id, $is_fork)`,
   );
   const result = stmt.run({
     $claude_session_id: claude_session_id,
     $title: title ?? null,
+    $kind: kind ?? null,
+    $parent_session_id: parent_session_id ?? null,
+    $is_fork: parent_session_id ? 1 : 0,
   });
   const id = Number(result.lastInsertRowid);
   return db.prepare("SELECT * FROM sessions WHERE id = $id").get({
@@ -31,12 +53,27 @@ export function getSession(claude_session_id: string): Session | null {
   return (stmt.get({ $claude_session_id: claude_session_id }) as Session) ?? null;
 }
 
+export function getSessionById(id: number): Session | null {
+  const db = getDb();
+  return (db.prepare("SELECT * FROM sessions WHERE id = $id").get({ $id: id }) as Session) ?? null;
+}
+
+/** Look a session up by its Claude session id, or by its row id. */
+export function findSession(ref: string): Session | null {
+  return getSession(ref) ?? (/^\d+$/.test(ref) ? getSessionById(Number(ref)) : null);
+}
+
+/**
+ * Mark a session active now, optionally setting its message count. The time
+ * is kept to the millisecond so the latest of several sessions touched within
+ * one second is still the one auto-resume picks.
+ */
 export function updateSession(claude_session_id: string, message_count?: number): void {
   const db = getDb();
   if (message_count !== undefined) {
     const stmt = db.prepare(
       `UPDATE sessions
-       SET last_active_at = datetime('now'), message_count = $message_count
+       SET last_active_at = strftime('%Y-%m-%d %H:%M:%f', 'now'), message_count = $message_count
        WHERE claude_session_id = $claude_session_id`,
     );
     stmt.run({
@@ -46,14 +83,124 @@ export function updateSession(claude_session_id: string, message_count?: number)
   } else {
     const stmt = db.prepare(
       `UPDATE sessions
-       SET last_active_at = datetime('now')
+       SET last_active_at = strftime('%Y-%m-%d %H:%M:%f', 'now')
        WHERE claude_session_id = $claude_session_id`,
     );
     stmt.run({ $claude_session_id: claude_session_id });
   }
 }
 
-export function listSessions(): Session[] {
+export interface ListSessionsOptions {
+  kind?: SessionKind;
+  tag?: string;
+  /** Also list archived sessions. */
+  includeArchived?: boolean;
+  /** Only sessions last active before this SQLite datetime. */
+  inactiveSince?: string;
+  /** Leave out sessions forked from another. */
+  excludeForks?: boolean;
+}
+
+/**
+ * The most recently active unarchived session of a kind, the one ask/chat/voice
+ * resume. Forks are skipped so a branch never takes over the main thread.
+ */
+export function getLatestSession(kind: SessionKind): Session | null {
+  return listSessions({ kind, excludeForks: true })[0] ?? null;
+}
+
+/** Sessions, most recently active first. Archived sessions are left out unless asked for. */
+export function listSessions(options: ListSessionsOptions = {}): Session[] {
+  const db = getDb();
+  const stmt = db.prepare(
+    `SELECT * FROM sessions
+     WHERE ($kind IS NULL OR kind = $kind)
+       AND ($tag IS NULL OR id IN (SELECT session_id FROM session_tags WHERE tag = $tag))
+       AND ($all = 1 OR archived_at IS NULL)
+       AND ($before IS NULL OR last_active_at < $before)
+       AND ($forks = 1 OR is_fork = 0)
+     ORDER BY last_active_at DESC`,
+  );
+  return stmt.all({
+    $kind: options.kind ?? null,
+    $tag: options.tag ?? null,
+    $all: options.includeArchived ? 1 : 0,
+    $before: options.inactiveSince ?? null,
+    $forks: options.excludeForks ? 0 : 1,
+  }) as Session[];
+}
+
+/** Sessions forked from this one, oldest first. */
+export function listSessionForks(id: number): Session[] {
+  const db = getDb();
+  return db
+    .prepare("SELECT * FROM sessions WHERE parent_session_id = $id ORDER BY id")
+    .all({ $id: id }) as Session[];
+}
+
+export function renameSession(id: number, title: string): boolean {
+  const db = getDb();
+  const stmt = db.prepare("UPDATE sessions SET title = $title WHERE id = $id");
+  return stmt.run({ $id: id, $title: title }).changes > 0;
+}
+
+/** Archive a session (hidden from listings and auto-resume), or bring it back. */
+export function setSessionArchived(id: number, archived: boolean): boolean {
+  const db = getDb();
+  const stmt = db.prepare(
+    `UPDATE sessions
+     SET archived_at = CASE WHEN $archived = 1 THEN COALESCE(archived_at, datetime('now')) END
+     WHERE id = $id`,
+  );
+  return stmt.run({ $id: id, $archived: archived ? 1 : 0 }).changes > 0;
+}
+
+export function addSessionTag(id: number, tag: string): void {
+  const db = getDb();
+  db.prepare("INSERT OR IGNORE INTO session_tags (session_id, tag) VALUES ($id, $tag)").run({
+    $id: id,
+    $tag: tag,
+  });
+}
+
+/** Returns false if the session didn't have the tag. */
+export function removeSessionTag(id: number, tag: string): boolean {
+  const db = getDb();
+  const stmt = db.prepare("DELETE FROM session_tags WHERE session_id = $id AND tag = $tag");
+  return stmt.run({ $id: id, $tag: tag }).changes > 0;
+}
+
+export function getSessionTags(id: number): string[] {
+  const db = getDb();
+  const rows = db
+    .prepare("SELECT tag FROM session_tags WHERE session_id = $id ORDER BY tag")
+    .all({ $id: id }) as { tag: string }[];
+  return rows.map((r) => r.tag);
+}
+
+/**
+ * Delete a session. Its transcript and tags go with it and memories that came
+ * from it lose the link (foreign key actions); sessions forked from it become
+ * forks of its own parent, if any. Returns false if there was no such session.
+ */
+export function deleteSession(id: number): boolean {
+  const db = getDb();
+  return db.transaction(() => {
+    db.prepare(
+      `UPDATE sessions
+       SET parent_session_id = (SELECT parent_session_id FROM sessions WHERE id = $id)
+       WHERE parent_session_id = $id`,
+    ).run({ $id: id });
+    return db.prepare("DELETE FROM sessions WHERE id = $id").run({ $id: id }).changes > 0;
+  })();
+}
+
+/** Delete every session last active before `cutoff` (a SQLite datetime). Returns the deleted sessions. */
+export function pruneSessions(cutoff: string): Session[] {
   const db = getDb();
-  return db.prepare("SELECT * FROM sessions ORDER BY last_active_at DESC").all() as Session[];
+  return db.transaction(() => {
+    const stale = listSessions({ includeArchived: true, inactiveSince: cutoff });
+    for (const session of stale) deleteSession(session.id);
+    return stale;
+  })();
 }
@@ -1,10 +1,14 @@
-import { getDb } from "./index.ts";
+import { getDb, type TASK_STATUSES } from "./index.ts";
+import { nextOccurrence } from "@/tasks/recurrence.ts";
+import { toSqliteDatetime } from "@/time/index.ts";
+
+export type TaskStatus = (typeof TASK_STATUSES)[number];
 
 export interface Task {
   id: number;
   title: string;
   description: string;
-  status: "pending" | "active" | "completed" | "failed";
+  status: TaskStatus;
   priority: number;
   scheduled_at: string | null;
   created_at: string;
@@ -12,6 +16,27 @@ export interface Task {
   completed_at: string | null;
   result: string | null;
   cwd: string | null;
+  /** Cron expression; when set, finishing this task schedules the next occurrence. */
+  recurrence: string | null;
+  /** 1 when the task is held back from the heartbeat. */
+  paused: number;
+  /** Per-task attempt limit; null means the task_max_attempts config default. */
+  max_attempts: number | null;
+  attempt_count: number;
+  /** Earliest time a retry may run, set after a retryable failure. */
+  next_attempt_at: string | null;
+  /** Identifies the process running an active task (see src/daemon/lease.ts). */
+  lease_owner: string | null;
+  /** Last time the lease owner reported the task as still running. */
+  lease_heartbeat_at: string | null;
+  /** Per-task run time limit; null means the task_timeout_seconds config default. */
+  timeout_seconds: number | null;
+  /** Set when `fryler task cancel` asks the runner to abort an active task. */
+  cancel_requested_at: string | null;
+  /** Built-in handler that runs this task instead of Claude (see src/tasks/handlers.ts). */
+  handler: string | null;
+  /** First task of the recurring series this occurrence was spawned from; null for that first task. */
+  series_id: number | null;
 }
 
 export interface CreateTaskInput {
@@ -20,20 +45,41 @@ export interface CreateTaskInput {
   priority?: number;
   scheduled_at?: string | null;
   cwd?: string | null;
+  recurrence?: string | null;
+  max_attempts?: number | null;
+  timeout_seconds?: number | null;
+  handler?: string | null;
+  series_id?: number | null;
 }
 
+/**
+ * Insert a new pending task. A recurring task without an explicit
+ * scheduled_at is scheduled for the next occurrence of its cron expression.
+ * Throws if the recurrence expression is invalid.
+ */
 export function createTask(input: CreateTaskInput): Task {
   const db = getDb();
+  const recurrence = input.recurrence ?? null;
+  let scheduledAt = input.scheduled_at ?? null;
+  if (recurrence && !scheduledAt) {
+    scheduledAt = toSqliteDatetime(nextOccurrence(recurrence));
+  }
+
   const stmt = db.prepare(
-    `INSERT INTO tasks (title, description, priority, scheduled_at, cwd)
-     VALUES ($title, $description, $priority, $scheduled_at, $cwd)`,
+    `INSERT INTO tasks (title, description, priority, scheduled_at, cwd, recurrence, max_attempts, timeout_seconds, handler, series_id)
+     VALUES ($title, $description, $priority, $scheduled_at, $cwd, $recurrence, $max_attempts, $timeout_seconds, $handler, $series_id)`,
   );
   const result = stmt.run({
     $title: input.title,
     $description: input.description ?? "",
     $priority: input.priority ?? 3,
-    $scheduled_at: input.scheduled_at ?? null,
+    $scheduled_at: scheduledAt,
     $cwd: input.cwd ?? null,
+    $recurrence: recurrence,
+    $max_attempts: input.max_attempts ?? null,
+    $timeout_seconds: input.timeout_seconds ?? null,
+    $handler: input.handler ?? null,
+    $series_id: input.series_id ?? null,
   });
   return getTask(Number(result.lastInsertRowid))!;
 }
@@ -53,37 +99,423 @@ export function listTasks(status?: Task["status"]): Task[] {
   return db.prepare("SELECT * FROM tasks").all() as Task[];
 }
 
+/** The pending or running task for a built-in handler, if there is one. */
+export function getOpenHandlerTask(handler: string): Task | null {
+  const db = getDb();
+  const stmt = db.prepare(
+    `SELECT * FROM tasks WHERE handler = $handler AND status IN ('pending', 'active')
+     ORDER BY id LIMIT 1`,
+  );
+  return (stmt.get({ $handler: handler }) as Task) ?? null;
+}
+
+/** Change a pending recurring task's schedule and move it to the next occurrence. */
+export function rescheduleRecurrence(id: number, recurrence: string): boolean {
+  const db = getDb();
+  const stmt = db.prepare(
+    `UPDATE tasks SET recurrence = $recurrence, scheduled_at = $scheduled_at, updated_at = datetime('now')
+     WHERE id = $id AND status = 'pending'`,
+  );
+  const result = stmt.run({
+    $id: id,
+    $recurrence: recurrence,
+    $scheduled_at: toSqliteDatetime(nextOccurrence(recurrence)),
+  });
+  return result.changes > 0;
+}
+
 export function updateTaskStatus(id: number, status: Task["status"], result?: string): void {
   const db = getDb();
   const completedAt =
-    status === "completed" || status === "failed" ? "datetime('now')" : "completed_at";
+    status === "completed" ||
+    status === "failed" ||
+    status === "interrupted" ||
+    status === "cancelled"
+      ? "datetime('now')"
+      : "completed_at";
+  // Leaving 'active' releases the lease and drops any pending cancel request
+  const lease = status === "active" ? "lease_owner" : "NULL";
+  const leaseHeartbeat = status === "active" ? "lease_heartbeat_at" : "NULL";
+  const cancelRequested = status === "active" ? "cancel_requested_at" : "NULL";
   const stmt = db.prepare(
     `UPDATE tasks
      SET status = $status,
          result = COALESCE($result, result),
          updated_at = datetime('now'),
-         completed_at = ${completedAt}
+         completed_at = ${completedAt},
+         lease_owner = ${lease},
+         lease_heartbeat_at = ${leaseHeartbeat},
+         cancel_requested_at = ${cancelRequested}
      WHERE id = $id`,
   );
   stmt.run({ $id: id, $status: status, $result: result ?? null });
 }
 
-export function getDueTasks(): Task[] {
+/** Fields of a pending task that can be changed with updateTask. */
+export interface UpdateTaskInput {
+  title?: string;
+  description?: string;
+  priority?: number;
+  scheduled_at?: string | null;
+  cwd?: string | null;
+  timeout_seconds?: number | null;
+}
+
+const UPDATABLE_FIELDS: (keyof UpdateTaskInput)[] = [
+  "title",
+  "description",
+  "priority",
+  "scheduled_at",
+  "cwd",
+  "timeout_seconds",
+];
+
+/**
+ * Change the given fields of a pending task; fields left undefined are kept.
+ * Returns the updated task, or null if it doesn't exist or is no longer pending.
+ * Throws if priority is outside 1–5.
+ */
+export function updateTask(id: number, input: UpdateTaskInput): Task | null {
+  const fields = UPDATABLE_FIELDS.filter((f) => input[f] !== undefined);
+  if (fields.length === 0) {
+    const task = getTask(id);
+    return task?.status === "pending" ? task : null;
+  }
+
   const db = getDb();
   const stmt = db.prepare(
-    `SELECT * FROM tasks
-     WHERE status = 'pending'
-       AND (scheduled_at IS NULL OR datetime(scheduled_at) <= datetime('now'))`,
+    `UPDATE tasks
+     SET ${fields.map((f) => `${f} = $${f}`).join(", ")},
+         updated_at = datetime('now')
+     WHERE id = $id AND status = 'pending'
+     RETURNING *`,
   );
-  return stmt.all() as Task[];
+  const params: Record<string, string | number | null> = { $id: id };
+  for (const f of fields) {
+    params[`$${f}`] = input[f] ?? null;
+  }
+  return (stmt.get(params) as Task) ?? null;
+}
+
+/**
+ * Refresh the lease on a task the caller is still running.
+ * Returns false if the task is no longer active under that owner.
+ */
+export function renewTaskLease(id: number, leaseOwner: string): boolean {
+  const db = getDb();
+  const stmt = db.prepare(
+    `UPDATE tasks SET lease_heartbeat_at = datetime('now')
+     WHERE id = $id AND status = 'active' AND lease_owner = $lease_owner`,
+  );
+  const result = stmt.run({ $id: id, $lease_owner: leaseOwner });
+  return result.changes > 0;
+}
+
+/**
+ * Put a task that failed transiently back in the queue, not to run before `at`.
+ */
+export function scheduleTaskRetry(id: number, at: Date, error: string): void {
+  const db = getDb();
+  const stmt = db.prepare(
+    `UPDATE tasks
+     SET status = 'pending',
+         next_attempt_at = $next_attempt_at,
+         result = $result,
+         lease_owner = NULL,
+         lease_heartbeat_at = NULL,
+         cancel_requested_at = NULL,
+         updated_at = datetime('now')
+     WHERE id = $id`,
+  );
+  stmt.run({ $id: id, $next_attempt_at: toSqliteDatetime(at), $result: error });
+}
+
+/**
+ * Manually re-queue a failed, interrupted or cancelled task with a fresh attempt budget.
+ * Dependents that were failed because of it are re-queued as well.
+ */
+export function retryTask(id: number): boolean {
+  const db = getDb();
+  const stmt = db.prepare(
+    `UPDATE tasks
+     SET status = 'pending',
+         attempt_count = 0,
+         next_attempt_at = NULL,
+         result = NULL,
+         completed_at = NULL,
+         updated_at = datetime('now')
+     WHERE id = $id AND status IN ('failed', 'interrupted', 'cancelled')`,
+  );
+  const result = stmt.run({ $id: id });
+  if (result.changes === 0) return false;
+
+  for (const dependent of getTaskDependents(id)) {
+    if (dependent.status === "failed" && dependent.result === `Dependency #${id} failed`) {
+      retryTask(dependent.id);
+    }
+  }
+  return true;
+}
+
+/**
+ * WHERE clause for pending, unpaused tasks whose scheduled time (and retry
+ * backoff) has passed and whose dependencies have all completed.
+ */
+const DUE_CONDITIONS = `status = 'pending'
+       AND paused = 0
+       AND (scheduled_at IS NULL OR datetime(scheduled_at) <= datetime('now'))
+       AND (next_attempt_at IS NULL OR datetime(next_attempt_at) <= datetime('now'))
+       AND NOT EXISTS (
+         SELECT 1 FROM task_dependencies d
+         JOIN tasks dep ON dep.id = d.depends_on_id
+         WHERE d.task_id = tasks.id AND dep.status != 'completed'
+       )`;
+
+/**
+ * Run order for due tasks: priority (1 = urgent), then scheduled time, then
+ * creation time. A task's priority improves by one step for every
+ * $aging_hours it has been waiting since it became due, so low-priority work
+ * can't be starved by a steady stream of urgent tasks. 0 disables aging.
+ */
+const DUE_ORDER = `ORDER BY
+         CASE WHEN $aging_hours > 0
+           THEN MAX(1, priority - CAST(
+             (julianday('now') - julianday(COALESCE(scheduled_at, created_at))) * 24 / $aging_hours
+             AS INTEGER))
+           ELSE priority
+         END,
+         datetime(COALESCE(scheduled_at, created_at)),
+         datetime(created_at),
+         id`;
+
+/** Due tasks in the order the heartbeat will run them. */
+export function getDueTasks(agingHours = 24): Task[] {
+  const db = getDb();
+  const stmt = db.prepare(`SELECT * FROM tasks WHERE ${DUE_CONDITIONS} ${DUE_ORDER}`);
+  return stmt.all({ $aging_hours: agingHours }) as Task[];
 }
 
+/**
+ * Atomically pick the next due task (in getDueTasks order) and mark it active under `leaseOwner`,
+ * counting the attempt. Tasks whose cwd is already in use by another active
+ * task are skipped so two runs never share a working directory.
+ * Returns null when nothing is claimable.
+ */
+export function claimNextTask(leaseOwner: string, agingHours = 24): Task | null {
+  const db = getDb();
+  const stmt = db.prepare(
+    `UPDATE tasks
+     SET status = 'active',
+         attempt_count = attempt_count + 1,
+         next_attempt_at = NULL,
+         lease_owner = $lease_owner,
+         lease_heartbeat_at = datetime('now'),
+         updated_at = datetime('now')
+     WHERE id = (
+       SELECT id FROM tasks
+       WHERE ${DUE_CONDITIONS}
+         AND (cwd IS NULL OR cwd NOT IN (
+           SELECT cwd FROM tasks WHERE status = 'active' AND cwd IS NOT NULL
+         ))
+       ${DUE_ORDER}
+       LIMIT 1
+     )
+       AND status = 'pending'
+     RETURNING *`,
+  );
+  return (stmt.get({ $lease_owner: leaseOwner, $aging_hours: agingHours }) as Task) ?? null;
+}
+
+/**
+ * Cancel a pending task outright. Tasks that depend on it are failed.
+ * Returns false if the task is not pending (see requestTaskCancel for active tasks).
+ */
 export function cancelTask(id: number): boolean {
   const db = getDb();
   const stmt = db.prepare(
-    `UPDATE tasks SET status = 'failed', updated_at = datetime('now'), completed_at = datetime('now')
+    `UPDATE tasks SET status = 'cancelled', updated_at = datetime('now'), completed_at = datetime('now')
      WHERE id = $id AND status = 'pending'`,
   );
   const result = stmt.run({ $id: id });
+  if (result.changes === 0) return false;
+  failDependents(id);
+  return true;
+}
+
+/**
+ * Cancel a task whatever its state. Pending tasks are cancelled immediately;
+ * active tasks are flagged for the runner to abort ("requested").
+ * Returns null if the task doesn't exist or has already finished.
+ */
+export function requestTaskCancel(id: number): "cancelled" | "requested" | null {
+  if (cancelTask(id)) return "cancelled";
+
+  const db = getDb();
+  const stmt = db.prepare(
+    `UPDATE tasks SET cancel_requested_at = datetime('now'), updated_at = datetime('now')
+     WHERE id = $id AND status = 'active'`,
+  );
+  return stmt.run({ $id: id }).changes > 0 ? "requested" : null;
+}
+
+/** Ids of active tasks with an outstanding cancel request. */
+export function getCancelRequestedTaskIds(): number[] {
+  const db = getDb();
+  const rows = db
+    .prepare("SELECT id FROM tasks WHERE status = 'active' AND cancel_requested_at IS NOT NULL")
+    .all() as { id: number }[];
+  return rows.map((r) => r.id);
+}
+
+/**
+ * Make `taskId` wait for `dependsOnId` to complete. Throws if either task is
+ * missing or the edge would create a cycle. If the dependency has already
+ * failed or been cancelled, the task fails immediately.
+ */
+export function addTaskDependency(taskId: number, dependsOnId: number): void {
+  if (taskId === dependsOnId) {
+    throw new Error(`Task #${taskId} cannot depend on itself`);
+  }
+  const dependency = getTask(dependsOnId);
+  if (!getTask(taskId)) throw new Error(`Task #${taskId} not found`);
+  if (!dependency) throw new Error(`Task #${dependsOnId} not found`);
+  if (dependsOnTransitively(dependsOnId, taskId)) {
+    throw new Error(`Task #${taskId} depending on #${dependsOnId} would create a cycle`);
+  }
+
+  const db = getDb();
+  db.prepare(
+    `INSERT OR IGNORE INTO task_dependencies (task_id, depends_on_id)
+     VALUES ($task_id, $depends_on_id)`,
+  ).run({ $task_id: taskId, $depends_on_id: dependsOnId });
+
+  if (dependency.status === "failed" || dependency.status === "cancelled") {
+    failDependents(dependsOnId);
+  }
+}
+
+function dependsOnTransitively(taskId: number, targetId: number): boolean {
+  const seen = new Set<number>();
+  const stack = [taskId];
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (current === targetId) return true;
+    if (seen.has(current)) continue;
+    seen.add(current);
+    for (const dep of getTaskDependencies(current)) {
+      stack.push(dep.id);
+    }
+  }
+  return false;
+}
+
+/** Tasks that `id` waits on. */
+export function getTaskDependencies(id: number): Task[] {
+  const db = getDb();
+  const stmt = db.prepare(
+    `SELECT t.* FROM task_dependencies d
+     JOIN tasks t ON t.id = d.depends_on_id
+     WHERE d.task_id = $id
+     ORDER BY t.id`,
+  );
+  return stmt.all({ $id: id }) as Task[];
+}
+
+/** Tasks waiting on `id`. */
+export function getTaskDependents(id: number): Task[] {
+  const db = getDb();
+  const stmt = db.prepare(
+    `SELECT t.* FROM task_dependencies d
+     JOIN tasks t ON t.id = d.task_id
+     WHERE d.depends_on_id = $id
+     ORDER BY t.id`,
+  );
+  return stmt.all({ $id: id }) as Task[];
+}
+
+/**
+ * Fail every pending task that (transitively) depends on `id`, recording
+ * which dependency caused it. Returns the ids of the tasks that were failed.
+ */
+export function failDependents(id: number): number[] {
+  const failed: number[] = [];
+  for (const dependent of getTaskDependents(id)) {
+    if (dependent.status !== "pending") continue;
+    updateTaskStatus(dependent.id, "failed", `Dependency #${id} failed`);
+    failed.push(dependent.id, ...failDependents(dependent.id));
+  }
+  return failed;
+}
+
+/**
+ * Pause or unpause a pending task. Paused tasks are skipped by the heartbeat.
+ */
+export function setTaskPaused(id: number, paused: boolean): boolean {
+  const db = getDb();
+  const stmt = db.prepare(
+    `UPDATE tasks SET paused = $paused, updated_at = datetime('now')
+     WHERE id = $id AND status = 'pending'`,
+  );
+  const result = stmt.run({ $id: id, $paused: paused ? 1 : 0 });
   return result.changes > 0;
 }
+
+/**
+ * End a recurring series, given any of its occurrences. Only the open
+ * occurrence still carries the recurrence; it stops carrying it and is
+ * returned so the caller can cancel it. Returns null if the task does not
+ * exist or its series has already ended.
+ */
+export function stopTaskRecurrence(id: number): Task | null {
+  const task = getTask(id);
+  if (!task) return null;
+
+  const db = getDb();
+  const rows = db
+    .prepare(
+      `UPDATE tasks SET recurrence = NULL, updated_at = datetime('now')
+       WHERE (id = $series OR series_id = $series) AND recurrence IS NOT NULL
+       RETURNING id`,
+    )
+    .all({ $series: task.series_id ?? task.id }) as { id: number }[];
+  if (rows.length === 0) return null;
+  return getTask(Math.max(...rows.map((r) => r.id)));
+}
+
+/**
+ * Create the next occurrence of a recurring task, scheduled from now. The
+ * recurrence moves to the new occurrence, so a series has one open row.
+ * Returns null if the task does not exist or is no longer recurring, or if
+ * another open occurrence already carries the series on.
+ */
+export function spawnNextOccurrence(id: number): Task | null {
+  const task = getTask(id);
+  if (!task?.recurrence) return null;
+  const recurrence = task.recurrence;
+
+  const db = getDb();
+  return db.transaction(() => {
+    const seriesId = task.series_id ?? task.id;
+    const open = db
+      .prepare(
+        `SELECT 1 FROM tasks
+         WHERE (id = $series OR series_id = $series) AND id != $id
+           AND status IN ('pending', 'active') AND recurrence IS NOT NULL`,
+      )
+      .get({ $series: seriesId, $id: task.id });
+    db.prepare("UPDATE tasks SET recurrence = NULL WHERE id = $id").run({ $id: task.id });
+    if (open) return null;
+
+    return createTask({
+      title: task.title,
+      description: task.description,
+      priority: task.priority,
+      scheduled_at: toSqliteDatetime(nextOccurrence(recurrence)),
+      cwd: task.cwd,
+      recurrence,
+      timeout_seconds: task.timeout_seconds,
+      handler: task.handler,
+      series_id: seriesId,
+    });
+  })();
+}
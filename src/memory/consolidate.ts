@@ -0,0 +1,235 @@
+/**
+ * Memory consolidation — ask Claude to merge redundant memories within a
+ * category into concise summaries. Planning never changes anything, so a
+ * plan can be shown as a diff (dry run) before it is applied. Applying a
+ * plan stores each summary as a new memory, archives the originals as
+ * superseded by it, and replaces their MEMORY.md entries with the summary.
+ */
+
+import { ask, ClaudeResultError, type AskOptions } from "@/claude/client.ts";
+import { getDb } from "@/db/index.ts";
+import {
+  createMemory,
+  getMemory,
+  isMemoryCurrent,
+  listMemories,
+  markMemorySynced,
+  supersedeMemory,
+  type Memory,
+} from "@/db/memories.ts";
+import { updateMemoryFile } from "./index.ts";
+import { previewMemorySync, syncMemoryFile, type SyncReport } from "./sync.ts";
+import {
+  formatEntry,
+  insertEntry,
+  removeEntry,
+  replaceEntry,
+  sectionTitleFor,
+} from "./sections.ts";
+import { logger } from "@/logger/index.ts";
+
+/** Source recorded for the summaries consolidation creates. */
+export const CONSOLIDATION_SOURCE = "consolidation";
+
+export interface ConsolidationMerge {
+  category: string;
+  /** The memories being merged, in id order. */
+  sources: Memory[];
+  /** The summary that replaces them. */
+  content: string;
+}
+
+export interface AppliedMerge extends ConsolidationMerge {
+  /** The memory created for the summary. */
+  summary: Memory;
+}
+
+export interface ConsolidationPlan {
+  /** Categories that had enough memories to be reviewed. */
+  categories: string[];
+  merges: ConsolidationMerge[];
+}
+
+export interface ConsolidationOptions {
+  /** Only review this category. */
+  category?: string;
+  /** Categories with fewer current memories than this are left alone. */
+  minEntries: number;
+  /** Take hand edits to MEMORY.md into account without syncing them. */
+  dryRun?: boolean;
+  /** Passed through to each claude invocation. */
+  askOptions?: Pick<AskOptions, "signal" | "timeoutMs" | "taskId" | "source" | "maxBudgetUsd">;
+}
+
+const SYSTEM_PROMPT =
+  "You maintain a personal assistant's long-term memory. You are given the memories " +
+  "stored under one category, each with its id. Find groups of memories that are " +
+  "redundant or overlapping and write one concise memory that keeps every distinct " +
+  "fact from the group. Leave memories that stand on their own out of every group. " +
+  "When memories in a group contradict each other, keep the one with the highest id " +
+  "(the most recent). Reply with JSON only, no prose: " +
+  '{"merges": [{"ids": [<id>, ...], "content": "<merged memory>"}]}. ' +
+  'Reply {"merges": []} if nothing should be merged.';
+
+export function buildConsolidationPrompt(category: string, memories: Memory[]): string {
+  const lines = memories.map((m) => `[${m.id}] ${m.content.replace(/\s*\n\s*/g, " ")}`);
+  return `Category: ${category}\n\nMemories:\n${lines.join("\n")}`;
+}
+
+/**
+ * Read Claude's merge proposals for one category. Proposals naming ids that
+ * aren't in `memories`, reusing an id, merging fewer than two memories or
+ * missing content are dropped.
+ */
+export function parseConsolidationResponse(
+  text: string,
+  category: string,
+  memories: Memory[],
+): ConsolidationMerge[] {
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start === -1 || end < start) {
+    throw new Error("consolidation reply contained no JSON object");
+  }
+  const parsed = JSON.parse(text.slice(start, end + 1)) as { merges?: unknown };
+  if (!Array.isArray(parsed.merges)) {
+    throw new Error('consolidation reply has no "merges" array');
+  }
+
+  const byId = new Map(memories.map((m) => [m.id, m]));
+  const used = new Set<number>();
+  const merges: ConsolidationMerge[] = [];
+
+  for (const proposal of parsed.merges as { ids?: unknown; content?: unknown }[]) {
+    const ids = Array.isArray(proposal?.ids) ? [...new Set(proposal.ids.map(Number))] : [];
+    const content = typeof proposal?.content === "string" ? proposal.content.trim() : "";
+    const valid = ids.length >= 2 && content && ids.every((id) => byId.has(id) && !used.has(id));
+    if (!valid) {
+      logger.warn("Ignoring invalid consolidation proposal", {
+        category,
+        proposal: JSON.stringify(proposal).slice(0, 200),
+      });
+      continue;
+    }
+    ids.forEach((id) => used.add(id));
+    merges.push({
+      category,
+      sources: ids.sort((a, b) => a - b).map((id) => byId.get(id)!),
+      content,
+    });
+  }
+  return merges;
+}
+
+/**
+ * Propose merges for every category with at least `minEntries` current
+ * memories, one claude call per category. Syncs MEMORY.md first so hand
+ * edits are taken into account (a dry run only previews the sync, so nothing
+ * changes); memories in conflict, memories with an expiry and pinned
+ * memories are left out.
+ */
+export async function planConsolidation(options: ConsolidationOptions): Promise<ConsolidationPlan> {
+  let sync: SyncReport;
+  let current: Memory[];
+  if (options.dryRun) {
+    ({ report: sync, result: current } = await previewMemorySync(() =>
+      listMemories(options.category),
+    ));
+  } else {
+    sync = await syncMemoryFile();
+    current = listMemories(options.category);
+  }
+  const conflicted = new Set(sync.conflicts.map((c) => c.id));
+
+  const byCategory = new Map<string, Memory[]>();
+  for (const memory of current) {
+    // Time-bound memories expire on their own; a merged summary would lose the expiry
+    // and a pinned memory is kept word for word
+    if (conflicted.has(memory.id) || memory.expires_at || memory.pinned) continue;
+    byCategory.set(memory.category, [...(byCategory.get(memory.category) ?? []), memory]);
+  }
+
+  const plan: ConsolidationPlan = { categories: [], merges: [] };
+  for (const [category, memories] of byCategory) {
+    if (memories.length < options.minEntries) continue;
+    plan.categories.push(category);
+
+    const response = await ask(buildConsolidationPrompt(category, memories), {
+      systemPrompt: SYSTEM_PROMPT,
+      injectIdentity: false,
+      noSessionPersistence: true,
+      maxTurns: 1,
+      ...options.askOptions,
+    });
+    if (response.is_error) {
+      throw new ClaudeResultError(response.result);
+    }
+    plan.merges.push(...parseConsolidationResponse(response.result, category, memories));
+  }
+  return plan;
+}
+
+/** Merges as a diff of MEMORY.md entries: removed originals, then the summary. */
+export function formatConsolidationDiff(merges: ConsolidationMerge[]): string {
+  return merges
+    .map((merge) => {
+      const ids = merge.sources.map((m) => `#${m.id}`).join(", ");
+      const removed = merge.sources.map((m) => prefixLines("-", formatEntry(m.content)));
+      const added = prefixLines("+", formatEntry(merge.content));
+      return [`@@ ${sectionTitleFor(merge.category)}: merge ${ids} @@`, ...removed, added].join(
+        "\n",
+      );
+    })
+    .join("\n\n");
+}
+
+function prefixLines(prefix: string, text: string): string {
+  return text
+    .split("\n")
+    .map((line) => `${prefix}${line}`)
+    .join("\n");
+}
+
+/**
+ * Apply a plan: each summary becomes a new memory that supersedes (archives)
+ * its sources and takes the first source's place in MEMORY.md. A merge is
+ * skipped if any source changed, went away or was pinned since the plan was
+ * made.
+ * Returns the merges that were applied.
+ */
+export async function applyConsolidation(plan: ConsolidationPlan): Promise<AppliedMerge[]> {
+  const applied: AppliedMerge[] = [];
+  await updateMemoryFile((doc) => {
+    getDb().transaction(() => {
+      for (const merge of plan.merges) {
+        const unchanged = merge.sources.every((source) => {
+          const current = getMemory(source.id);
+          return (
+            current !== null &&
+            current.content === source.content &&
+            !current.pinned &&
+            isMemoryCurrent(current)
+          );
+        });
+        if (!unchanged) {
+          logger.warn("Skipping consolidation of memories that changed since planning", {
+            ids: merge.sources.map((m) => m.id),
+          });
+          continue;
+        }
+
+        const summary = createMemory(merge.category, merge.content, CONSOLIDATION_SOURCE);
+        for (const source of merge.sources) supersedeMemory(source.id, summary.id);
+
+        const entry = formatEntry(summary.content, summary.id);
+        const [first, ...rest] = merge.sources;
+        if (!replaceEntry(doc, first!, entry)) insertEntry(doc, merge.category, entry);
+        for (const source of rest) removeEntry(doc, source);
+        markMemorySynced(summary.id, summary.content);
+        applied.push({ ...merge, summary: getMemory(summary.id) ?? summary });
+      }
+    })();
+    return applied.length > 0;
+  });
+  return applied;
+}
@@ -0,0 +1,173 @@
+/**
+ * Keep near-identical memories out of the store. A new memory is compared
+ * with the closest existing ones in its category by word overlap, and a
+ * near-copy is skipped. Word overlap can't tell a changed detail from a
+ * different fact ("sister's birthday" vs "brother's birthday"), so replacing
+ * an older memory is left to explicit FRYLER_MEMORY_UPDATE/FORGET markers.
+ */
+
+import {
+  createMemory,
+  searchMemories,
+  type Memory,
+  type CreateMemoryOptions,
+} from "@/db/memories.ts";
+import { getDb } from "@/db/index.ts";
+import { logger } from "@/logger/index.ts";
+
+/** Words too common to say anything about whether two memories match. */
+const STOP_WORDS = new Set([
+  "a",
+  "an",
+  "and",
+  "are",
+  "as",
+  "at",
+  "be",
+  "for",
+  "has",
+  "have",
+  "in",
+  "is",
+  "it",
+  "of",
+  "on",
+  "or",
+  "that",
+  "the",
+  "their",
+  "they",
+  "to",
+  "was",
+  "with",
+]);
+
+/** Candidates fetched from the full-text index for each comparison. */
+const CANDIDATE_LIMIT = 20;
+
+/** Share of a match text's words a memory must contain to be the one it refers to. */
+const MATCH_COVERAGE = 0.75;
+
+export interface SimilarityThresholds {
+  /** At or above this, the new memory is a duplicate and isn't stored. */
+  duplicate: number;
+}
+
+export type RecordOutcome = "created" | "duplicate";
+
+export interface RecordedMemory {
+  outcome: RecordOutcome;
+  /** The stored memory, or the existing one for a duplicate. */
+  memory: Memory;
+  /** Similarity to the closest existing memory (0 when there was none). */
+  similarity: number;
+}
+
+/** Lowercased content words with punctuation, stop words and plural "s" removed. */
+export function normalizeMemoryText(text: string): Set<string> {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? [];
+  const normalized = new Set<string>();
+  for (const word of words) {
+    if (STOP_WORDS.has(word)) continue;
+    normalized.add(
+      word.length > 3 && word.endsWith("s") && !word.endsWith("ss") ? word.slice(0, -1) : word,
+    );
+  }
+  return normalized;
+}
+
+/** Jaccard similarity of the two memories' normalized words: 1 for the same words, 0 for none shared. */
+export function memorySimilarity(a: string, b: string): number {
+  const wordsA = normalizeMemoryText(a);
+  const wordsB = normalizeMemoryText(b);
+  if (wordsA.size === 0 && wordsB.size === 0) return a.trim() === b.trim() ? 1 : 0;
+
+  let shared = 0;
+  for (const word of wordsA) if (wordsB.has(word)) shared++;
+  return shared / (wordsA.size + wordsB.size - shared);
+}
+
+/** The current memory in `category` most similar to `content`, if any share a word. */
+export function findSimilarMemory(
+  category: string,
+  content: string,
+): { memory: Memory; similarity: number } | null {
+  let best: { memory: Memory; similarity: number } | null = null;
+  for (const match of searchMemories(content, {
+    category,
+    matchAny: true,
+    limit: CANDIDATE_LIMIT,
+  })) {
+    const similarity = memorySimilarity(content, match.content);
+    if (!best || similarity > best.similarity) {
+      const { rank: _rank, highlighted: _highlighted, ...memory } = match;
+      best = { memory, similarity };
+    }
+  }
+  return best;
+}
+
+/** Share of `match`'s normalized words that appear in `content`: 1 when all of them do. */
+export function matchCoverage(match: string, content: string): number {
+  const wanted = normalizeMemoryText(match);
+  if (wanted.size === 0) return 0;
+  const words = normalizeMemoryText(content);
+  let found = 0;
+  for (const word of wanted) if (words.has(word)) found++;
+  return found / wanted.size;
+}
+
+/**
+ * The current memory that `match` describes: the one containing most of its
+ * words, ties broken by overall similarity. A short match like "uses Vim"
+ * finds "Fry uses Vim as their main editor". Returns null when no memory
+ * contains enough of the words, or the match is ambiguous: more than one
+ * memory contains every word, or two match equally well.
+ */
+export function findMatchingMemory(match: string, category?: string): Memory | null {
+  const scored = searchMemories(match, { category, matchAny: true, limit: CANDIDATE_LIMIT })
+    .map(({ rank: _rank, highlighted: _highlighted, ...memory }) => ({
+      memory,
+      coverage: matchCoverage(match, memory.content),
+      similarity: memorySimilarity(match, memory.content),
+    }))
+    .filter((s) => s.coverage >= MATCH_COVERAGE)
+    .sort((a, b) => b.coverage - a.coverage || b.similarity - a.similarity);
+
+  const [best, next] = scored;
+  if (!best) return null;
+  const tied = next && next.coverage === best.coverage && next.similarity === best.similarity;
+  const complete = scored.filter((s) => s.coverage === 1);
+  if (tied || complete.length > 1) {
+    logger.warn("Memory match is ambiguous, ignoring it", {
+      match,
+      ids: (complete.length > 1 ? complete : [best, next!]).map((s) => s.memory.id),
+    });
+    return null;
+  }
+  return best.memory;
+}
+
+/** Store a memory unless it duplicates one already in its category. */
+export function recordMemory(
+  category: string,
+  content: string,
+  source: string | undefined,
+  thresholds: SimilarityThresholds,
+  options: CreateMemoryOptions = {},
+): RecordedMemory {
+  const db = getDb();
+  return db.transaction((): RecordedMemory => {
+    const similar = findSimilarMemory(category, content);
+    const similarity = similar?.similarity ?? 0;
+
+    if (similar && similarity >= thresholds.duplicate) {
+      return { outcome: "duplicate", memory: similar.memory, similarity };
+    }
+    return {
+      outcome: "created",
+      memory: createMemory(category, content, source, options),
+      similarity,
+    };
+  })();
+}
@@ -1,5 +1,5 @@
 /**
- * SOUL.md and MEMORY.md reading/appending logic.
+ * SOUL.md and MEMORY.md reading/writing logic.
  *
  * Inside a container (FRYLER_CONTAINER=1), identity files live in ~/.fryler/.
  * On the host (dev/test), they live in the project root.
@@ -8,6 +8,43 @@
 import { homedir } from "node:os";
 import { join } from "node:path";
 import { existsSync, copyFileSync, mkdirSync } from "node:fs";
+import { getConfig } from "@/config/index.ts";
+import { getDb } from "@/db/index.ts";
+import {
+  archiveExpiredMemories,
+  countMemories,
+  forgetMemory,
+  getMemory,
+  isMemoryCurrent,
+  markMemorySynced,
+  recordMemoryAudit,
+  updateMemory,
+  type Memory,
+  type CreateMemoryOptions,
+  type MemoryProvenance,
+} from "@/db/memories.ts";
+import { getSession } from "@/db/sessions.ts";
+import { selectMemories, formatMemory } from "./relevance.ts";
+import { findMatchingMemory, recordMemory, type RecordedMemory } from "./dedupe.ts";
+import {
+  parseMemoryDocument,
+  renderMemoryDocument,
+  findSection,
+  insertEntry,
+  removeEntry,
+  replaceEntry,
+  formatEntry,
+  type MemoryDocument,
+} from "./sections.ts";
+import { withFileLock, writeFileAtomic } from "./lock.ts";
+import { logger } from "@/logger/index.ts";
+
+let identityDirOverride: string | null = null;
+
+/** Override the identity directory (for testing). */
+export function _setIdentityDir(dir: string | null): void {
+  identityDirOverride = dir;
+}
 
 function isInsideContainer(): boolean {
   return process.env.FRYLER_CONTAINER === "1";
@@ -23,6 +60,7 @@ export function getProjectRoot(): string {
  * On host: project root (dev workflow).
  */
 export function getIdentityDir(): string {
+  if (identityDirOverride) return identityDirOverride;
   if (isInsideContainer()) {
     return join(homedir(), ".fryler");
   }
@@ -70,17 +108,276 @@ export async function readMemory(): Promise<string> {
   return file.text();
 }
 
-export async function appendMemory(entry: string): Promise<void> {
+/**
+ * Read, change and rewrite MEMORY.md while holding its lock (see lock.ts).
+ * The file is only rewritten when `change` returns something other than false.
+ */
+export async function updateMemoryFile(
+  change: (doc: MemoryDocument) => boolean | void,
+): Promise<void> {
   const path = join(getIdentityDir(), "MEMORY.md");
-  const file = Bun.file(path);
-  const existing = (await file.exists()) ? await file.text() : "";
-  const timestamp = new Date().toISOString();
-  const appended = `${existing}\n### ${timestamp}\n${entry}`;
-  await Bun.write(path, appended);
+  await withFileLock(path, async () => {
+    const file = Bun.file(path);
+    const existing = (await file.exists()) ? await file.text() : "# Fryler — Memory\n";
+    const doc = parseMemoryDocument(existing);
+    if (change(doc) === false) return;
+    writeFileAtomic(path, renderMemoryDocument(doc));
+  });
+}
+
+type MemoryEntryFields = Pick<Memory, "id" | "category" | "content">;
+
+/**
+ * Add a memory to MEMORY.md under the section for its category, creating the
+ * section if needed. Safe against concurrent writers.
+ */
+export async function appendMemory(memory: MemoryEntryFields): Promise<void> {
+  await updateMemoryFile((doc) => {
+    insertEntry(doc, memory.category, formatEntry(memory.content, memory.id));
+  });
+  markMemorySynced(memory.id, memory.content);
+}
+
+/** Remove a memory's entry from MEMORY.md. Returns false if it wasn't there. */
+export async function removeMemoryEntry(memory: MemoryEntryFields): Promise<boolean> {
+  let removed = false;
+  await updateMemoryFile((doc) => {
+    removed = removeEntry(doc, memory);
+    return removed;
+  });
+  return removed;
+}
+
+/**
+ * Rewrite a memory's MEMORY.md entry after it changed (or after it replaced
+ * `before`). The entry is replaced in place when the category is unchanged,
+ * otherwise it moves to the new category's section; it is added if the old
+ * entry can't be found.
+ */
+export async function replaceMemoryEntry(
+  before: MemoryEntryFields,
+  after: MemoryEntryFields,
+): Promise<void> {
+  await updateMemoryFile((doc) => {
+    const entry = formatEntry(after.content, after.id);
+    const sameSection = findSection(doc, before.category) === findSection(doc, after.category);
+    if (sameSection && replaceEntry(doc, before, entry)) return;
+    removeEntry(doc, before);
+    insertEntry(doc, after.category, entry);
+  });
+  markMemorySynced(after.id, after.content);
+}
+
+/** Characters of the triggering prompt kept with a memory. */
+const PROMPT_EXCERPT_LENGTH = 200;
+
+/** The conversation or task a FRYLER_MEMORY marker appeared in. */
+export interface MemoryOrigin {
+  /** Claude session id of a tracked conversation (see db/sessions.ts). */
+  sessionId?: string | null;
+  taskId?: number | null;
+  /** The user's message, or the task description, that led to the memory. */
+  prompt?: string | null;
+}
+
+function toProvenance(origin: MemoryOrigin): MemoryProvenance {
+  const prompt = origin.prompt?.trim().replace(/\s+/g, " ");
+  return {
+    session_id: origin.sessionId ? (getSession(origin.sessionId)?.id ?? null) : null,
+    task_id: origin.taskId ?? null,
+    prompt_excerpt: prompt
+      ? prompt.length > PROMPT_EXCERPT_LENGTH
+        ? `${prompt.slice(0, PROMPT_EXCERPT_LENGTH - 3)}...`
+        : prompt
+      : null,
+  };
+}
+
+/** A FRYLER_MEMORY marker's expiry: a date, or a duration from now. */
+export type MemoryExpiry = Pick<CreateMemoryOptions, "expires_at" | "ttl">;
+
+/**
+ * Store a memory from a FRYLER_MEMORY marker: record it in the DB (skipping
+ * near-duplicates, see dedupe.ts) along with where it came from, and add it
+ * to MEMORY.md unless it was a duplicate.
+ */
+export async function storeMemory(
+  category: string,
+  content: string,
+  source: string,
+  origin: MemoryOrigin = {},
+  expiry: MemoryExpiry = {},
+): Promise<RecordedMemory> {
+  const config = await getConfig();
+  const recorded = recordMemory(
+    category,
+    content,
+    source,
+    { duplicate: config.memory_duplicate_similarity },
+    { ...toProvenance(origin), expires_at: expiry.expires_at, ttl: expiry.ttl },
+  );
+
+  if (recorded.outcome === "duplicate") {
+    logger.info(`Skipped duplicate memory (matches #${recorded.memory.id})`, {
+      category,
+      similarity: Number(recorded.similarity.toFixed(2)),
+    });
+    return recorded;
+  }
+  await appendMemory(recorded.memory);
+  return recorded;
+}
+
+/**
+ * Housekeeping: archive memories whose expiry has passed and take their
+ * entries out of MEMORY.md. They already stopped being injected into prompts
+ * when they expired. Returns the memories archived.
+ */
+export async function archiveExpiredMemoryEntries(): Promise<Memory[]> {
+  const archived = archiveExpiredMemories();
+  if (archived.length === 0) return archived;
+  await updateMemoryFile((doc) => {
+    let changed = false;
+    for (const memory of archived) changed = removeEntry(doc, memory) || changed;
+    return changed;
+  });
+  return archived;
+}
+
+/**
+ * The memory a FRYLER_MEMORY_UPDATE or FRYLER_FORGET marker refers to: by id,
+ * or the current memory whose content `match` describes (see dedupe.ts).
+ */
+export interface MemoryTarget {
+  id: number | null;
+  match: string | null;
+  /** Only look for `match` in this category. */
+  category: string | null;
+}
+
+/** The current memory a target names, or null if there's none (or it's ambiguous). */
+export function findTargetMemory(target: MemoryTarget): Memory | null {
+  if (target.id !== null) {
+    const memory = getMemory(target.id);
+    return memory && isMemoryCurrent(memory) ? memory : null;
+  }
+  return target.match ? findMatchingMemory(target.match, target.category ?? undefined) : null;
 }
 
-export async function getIdentityContext(): Promise<string> {
+/**
+ * Change an existing memory's content from a FRYLER_MEMORY_UPDATE marker,
+ * rewrite its MEMORY.md entry and record the change in memory_audit.
+ * Returns the updated memory, or null if the target matched nothing.
+ */
+export async function reviseMemory(
+  target: MemoryTarget,
+  content: string,
+  source: string,
+  reason: string | null = null,
+): Promise<Memory | null> {
+  const memory = findTargetMemory(target);
+  if (!memory) {
+    logger.warn("No memory matches update marker", { ...target, source });
+    return null;
+  }
+  if (memory.content.trim() === content.trim()) return memory;
+
+  const updated = getDb().transaction(() => {
+    const after = updateMemory(memory.id, { content: content.trim() })!;
+    recordMemoryAudit({
+      memory_id: memory.id,
+      action: "update",
+      source,
+      reason,
+      old_content: memory.content,
+      new_content: after.content,
+    });
+    return after;
+  })();
+  await replaceMemoryEntry(memory, updated);
+  logger.info(`Updated memory #${memory.id}`, { source, reason });
+  return updated;
+}
+
+/**
+ * Forget an existing memory from a FRYLER_FORGET marker, remove its MEMORY.md
+ * entry and record the change in memory_audit. Returns the forgotten memory,
+ * or null if the target matched nothing.
+ */
+export async function retractMemory(
+  target: MemoryTarget,
+  source: string,
+  reason: string | null = null,
+): Promise<Memory | null> {
+  const memory = findTargetMemory(target);
+  if (!memory) {
+    logger.warn("No memory matches forget marker", { ...target, source });
+    return null;
+  }
+
+  const forgotten = getDb().transaction(() => {
+    const after = forgetMemory(memory.id);
+    if (after) {
+      recordMemoryAudit({
+        memory_id: memory.id,
+        action: "forget",
+        source,
+        reason,
+        old_content: memory.content,
+        new_content: null,
+      });
+    }
+    return after;
+  })();
+  if (!forgotten) return null;
+  await removeMemoryEntry(memory);
+  logger.info(`Forgot memory #${memory.id}`, { source, reason });
+  return forgotten;
+}
+
+/**
+ * SOUL.md plus the memories relevant to `prompt` (see relevance.ts), rather
+ * than the whole of MEMORY.md.
+ */
+export async function getIdentityContext(prompt = ""): Promise<string> {
   const soul = await readSoul();
-  const memory = await readMemory();
-  return `=== FRYLER IDENTITY (SOUL.md) ===\n${soul}\n\n=== FRYLER MEMORY (MEMORY.md) ===\n${memory}`;
+  const memory = await getMemoryContext(prompt);
+  return `=== FRYLER IDENTITY (SOUL.md) ===\n${soul}\n\n${memory}`;
+}
+
+async function getMemoryContext(prompt: string): Promise<string> {
+  const config = await getConfig();
+
+  // Nothing recorded in the DB yet: fall back to the tail of a hand-written MEMORY.md
+  const total = countMemories();
+  if (total === 0) {
+    const memory = await readMemory();
+    return `=== FRYLER MEMORY (MEMORY.md) ===\n${memory.slice(-config.memory_token_budget * 4)}`;
+  }
+
+  const selection = selectMemories(prompt, {
+    maxMemories: config.memory_max_injected,
+    tokenBudget: config.memory_token_budget,
+  });
+
+  if (config.memory_debug) {
+    logger.info("Injected memories into system prompt", {
+      prompt: prompt.slice(0, 100),
+      tokens: selection.tokens,
+      skipped_over_budget: selection.skipped,
+      memories: selection.memories.map((m) => ({
+        id: m.id,
+        pinned: m.pinned === 1,
+        rank: m.rank,
+        content: m.content.slice(0, 60),
+      })),
+    });
+  }
+
+  const lines = selection.memories.map(formatMemory).join("\n") || "(none relevant)";
+  const more =
+    total > selection.memories.length
+      ? `\n\n${total - selection.memories.length} more memories; search them with \`fryler memory search <query>\`.`
+      : "";
+  return `=== FRYLER MEMORY (pinned and relevant to this request) ===\n${lines}${more}`;
 }
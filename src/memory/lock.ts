@@ -0,0 +1,72 @@
+/**
+ * Exclusive access to a file shared by the daemon, the REPL and one-off CLI
+ * commands. A "<file>.lock" sibling created with O_EXCL guards each
+ * read-modify-write across processes; writes go through a temp file and a
+ * rename so a reader never sees a half-written file.
+ */
+
+import { openSync, closeSync, unlinkSync, statSync, renameSync, writeFileSync } from "node:fs";
+
+/** A lock older than this is assumed to belong to a process that died holding it. */
+const STALE_LOCK_MS = 30_000;
+const RETRY_MS = 25;
+const TIMEOUT_MS = 10_000;
+
+/** Calls in this process queue here first, so they don't spin against each other. */
+const queues = new Map<string, Promise<unknown>>();
+
+function tryAcquire(lockPath: string): boolean {
+  try {
+    closeSync(openSync(lockPath, "wx"));
+    return true;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "EEXIST") throw err;
+    try {
+      if (Date.now() - statSync(lockPath).mtimeMs > STALE_LOCK_MS) unlinkSync(lockPath);
+    } catch {
+      // Released between our open and stat — just retry
+    }
+    return false;
+  }
+}
+
+/**
+ * Run `fn` while holding the lock for `path`. Throws if the lock can't be
+ * taken within ten seconds.
+ */
+export async function withFileLock<T>(path: string, fn: () => Promise<T>): Promise<T> {
+  const previous = queues.get(path) ?? Promise.resolve();
+  const run = previous
+    .catch(() => {})
+    .then(async () => {
+      const lockPath = `${path}.lock`;
+      const deadline = Date.now() + TIMEOUT_MS;
+      while (!tryAcquire(lockPath)) {
+        if (Date.now() > deadline) throw new Error(`Timed out waiting for lock on ${path}`);
+        await Bun.sleep(RETRY_MS);
+      }
+      try {
+        return await fn();
+      } finally {
+        try {
+          unlinkSync(lockPath);
+        } catch {
+          // Already removed as stale by another process
+        }
+      }
+    });
+
+  queues.set(path, run);
+  try {
+    return await run;
+  } finally {
+    if (queues.get(path) === run) queues.delete(path);
+  }
+}
+
+/** Replace a file's contents atomically (temp file + rename). */
+export function writeFileAtomic(path: string, content: string): void {
+  const tmp = `${path}.${process.pid}.${Date.now().toString(36)}.tmp`;
+  writeFileSync(tmp, content, "utf-8");
+  renameSync(tmp, path);
+}
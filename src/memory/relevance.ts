@@ -0,0 +1,69 @@
+/**
+ * Pick the memories worth putting in a system prompt: every pinned memory,
+ * then the best BM25 matches for the prompt, until the token budget runs out.
+ */
+
+import { listPinnedMemories, searchMemories, type Memory } from "@/db/memories.ts";
+
+export interface MemorySelectionOptions {
+  /** Most relevant (non-pinned) memories to include. */
+  maxMemories: number;
+  /** Approximate token budget shared by pinned and relevant memories. */
+  tokenBudget: number;
+}
+
+export interface SelectedMemory extends Memory {
+  /** BM25 score for relevant memories (lower is better); null for pinned ones. */
+  rank: number | null;
+}
+
+export interface MemorySelection {
+  memories: SelectedMemory[];
+  /** Estimated tokens used by the formatted memories. */
+  tokens: number;
+  /** Relevant memories that matched but didn't fit the budget. */
+  skipped: number;
+}
+
+/** Rough token count — about four characters per token for English text. */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function formatMemory(memory: Memory): string {
+  return `- [${memory.category}] ${memory.content}`;
+}
+
+/**
+ * Pinned memories are always included, even past the budget. Relevant ones
+ * fill whatever budget is left, best match first.
+ */
+export function selectMemories(prompt: string, options: MemorySelectionOptions): MemorySelection {
+  const memories: SelectedMemory[] = [];
+  let tokens = 0;
+  let skipped = 0;
+
+  for (const memory of listPinnedMemories()) {
+    memories.push({ ...memory, rank: null });
+    tokens += estimateTokens(formatMemory(memory));
+  }
+
+  const matches = searchMemories(prompt, { matchAny: true, limit: options.maxMemories * 2 });
+  let added = 0;
+  for (const match of matches) {
+    if (match.pinned) continue;
+    if (added >= options.maxMemories) break;
+
+    const cost = estimateTokens(formatMemory(match));
+    if (tokens + cost > options.tokenBudget) {
+      skipped++;
+      continue;
+    }
+    const { highlighted: _highlighted, ...memory } = match;
+    memories.push(memory);
+    tokens += cost;
+    added++;
+  }
+
+  return { memories, tokens, skipped };
+}
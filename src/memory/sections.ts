@@ -0,0 +1,229 @@
+/**
+ * MEMORY.md structure: an optional preamble (the "# Fryler — Memory" title)
+ * followed by "## Section" blocks, one per memory category. Memories are
+ * bullet entries under their section, each ending in a `<!-- mem:ID -->` tag
+ * that ties it to its DB row (see sync.ts). Anything else in the file
+ * (hand-written notes, older timestamped entries) is kept exactly as it is.
+ */
+
+export interface MemorySection {
+  /** Heading text without the leading "## ". */
+  title: string;
+  /** Lines below the heading, up to the next section. */
+  lines: string[];
+}
+
+export interface MemoryDocument {
+  preamble: string[];
+  sections: MemorySection[];
+}
+
+/** Categories whose section name isn't just the category with an "s" on the end. */
+const SECTION_ALIASES: Record<string, string> = {
+  person: "people",
+  note: "notes",
+};
+
+export function parseMemoryDocument(text: string): MemoryDocument {
+  const doc: MemoryDocument = { preamble: [], sections: [] };
+  let current: string[] = doc.preamble;
+
+  const lines = text.split("\n");
+  if (lines.at(-1) === "") lines.pop();
+
+  for (const line of lines) {
+    const heading = line.match(/^##\s+(.+?)\s*$/);
+    if (heading) {
+      const section = { title: heading[1]!, lines: [] };
+      doc.sections.push(section);
+      current = section.lines;
+    } else {
+      current.push(line);
+    }
+  }
+  return doc;
+}
+
+export function renderMemoryDocument(doc: MemoryDocument): string {
+  const out = [...doc.preamble];
+  for (const section of doc.sections) {
+    out.push(`## ${section.title}`, ...section.lines);
+  }
+  return out.join("\n") + "\n";
+}
+
+function normalize(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+/**
+ * The section a category belongs in: "preference" → "Preferences",
+ * "person" → "People", otherwise an exact (case-insensitive) title match.
+ */
+export function findSection(doc: MemoryDocument, category: string): MemorySection | null {
+  const key = normalize(category);
+  const candidates = new Set([key, `${key}s`, SECTION_ALIASES[key]]);
+  return doc.sections.find((s) => candidates.has(normalize(s.title))) ?? null;
+}
+
+/** Title for a section created for a category that has none yet: "fact" → "Facts". */
+export function sectionTitleFor(category: string): string {
+  const key = normalize(category);
+  const name = SECTION_ALIASES[key] ?? (key.endsWith("s") ? key : `${key}s`);
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+/** Trailing tag tying an entry to its row in the memories table. */
+const ENTRY_TAG = /\s*<!-- mem:(\d+) -->\s*$/;
+
+/**
+ * A memory as a bullet, tagged with its memory id when it has one;
+ * continuation lines are indented under it.
+ */
+export function formatEntry(content: string, id?: number): string {
+  const tag = id ? ` <!-- mem:${id} -->` : "";
+  return `- ${content.trim().split("\n").join("\n  ")}${tag}`;
+}
+
+/** A bullet entry found in a section. */
+export interface MemoryEntry {
+  section: MemorySection;
+  /** Index of the bullet line in `section.lines`. */
+  index: number;
+  /** Number of lines, including continuation lines. */
+  length: number;
+  /** Memory id from the entry's tag; null for an untagged (hand-written) entry. */
+  id: number | null;
+  /** The entry's text without the bullet, indentation or tag. */
+  content: string;
+}
+
+function isContinuation(line: string | undefined): boolean {
+  return line !== undefined && /^\s+\S/.test(line);
+}
+
+/** Every bullet entry in the document's sections, in file order. */
+export function listEntries(doc: MemoryDocument): MemoryEntry[] {
+  const entries: MemoryEntry[] = [];
+  for (const section of doc.sections) {
+    const { lines } = section;
+    for (let i = 0; i < lines.length; i++) {
+      if (!lines[i]!.startsWith("- ")) continue;
+      let length = 1;
+      while (isContinuation(lines[i + length])) length++;
+
+      const block = lines.slice(i, i + length);
+      const tag = block.at(-1)!.match(ENTRY_TAG);
+      if (tag) block[block.length - 1] = block.at(-1)!.slice(0, tag.index);
+      const content = [block[0]!.slice(2), ...block.slice(1).map((l) => l.trim())]
+        .join("\n")
+        .trim();
+      entries.push({ section, index: i, length, id: tag ? Number(tag[1]) : null, content });
+      i += length - 1;
+    }
+  }
+  return entries;
+}
+
+/** Index just past the section's last bullet entry (and its continuation lines), or -1. */
+function endOfEntries(lines: string[]): number {
+  let end = -1;
+  let inEntry = false;
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]!;
+    inEntry = line.startsWith("- ") || (inEntry && isContinuation(line));
+    if (inEntry) end = i + 1;
+  }
+  return end;
+}
+
+/**
+ * Add an entry after the last entry in its category's section, creating the
+ * section at the end of the document when the category is new. Other text in
+ * the section stays where it is, and sections stay separated by a blank line.
+ */
+export function insertEntry(doc: MemoryDocument, category: string, entry: string): void {
+  let section = findSection(doc, category);
+  if (!section) {
+    const last = doc.sections.at(-1)?.lines ?? doc.preamble;
+    if (last.length > 0 && last.at(-1)!.trim() !== "") last.push("");
+    section = { title: sectionTitleFor(category), lines: [] };
+    doc.sections.push(section);
+  }
+
+  const lines = entry.split("\n");
+  let at = endOfEntries(section.lines);
+  if (at === -1) {
+    // First entry: below a blank line under the heading, above any other text
+    at = 0;
+    while (at < section.lines.length && section.lines[at]!.trim() === "") at++;
+    if (at === 0) lines.unshift("");
+    if (at < section.lines.length) lines.push("");
+  }
+  section.lines.splice(at, 0, ...lines);
+
+  // Make sure a following section stays separated by a blank line
+  const isLast = section === doc.sections.at(-1);
+  if (!isLast && section.lines.at(-1)!.trim() !== "") section.lines.push("");
+}
+
+/** How to find a memory's entry: by its tag, else by its text. */
+export interface EntryRef {
+  id?: number;
+  category: string;
+  content: string;
+}
+
+/**
+ * Find a memory's entry by its id tag. Falls back to an untagged entry with
+ * the same text, looking in the category's section first and then the rest
+ * of the document (the section may have been renamed by hand).
+ */
+export function findEntry(doc: MemoryDocument, ref: EntryRef): MemoryEntry | null {
+  const entries = listEntries(doc);
+  if (ref.id) {
+    const tagged = entries.find((e) => e.id === ref.id);
+    if (tagged) return tagged;
+  }
+  const content = ref.content.trim();
+  const untagged = entries.filter((e) => e.id === null && e.content === content);
+  const home = findSection(doc, ref.category);
+  return untagged.find((e) => e.section === home) ?? untagged[0] ?? null;
+}
+
+/** Remove an entry. Returns false if it isn't in the document. */
+export function removeEntry(doc: MemoryDocument, ref: EntryRef): boolean {
+  const found = findEntry(doc, ref);
+  if (!found) return false;
+
+  const { lines } = found.section;
+  lines.splice(found.index, found.length);
+  // Don't leave two blank lines where the entry was
+  const at = found.index;
+  if (at > 0 && lines[at - 1]!.trim() === "" && (lines[at] ?? "").trim() === "") {
+    lines.splice(at, 1);
+  }
+  return true;
+}
+
+/**
+ * Replace an entry in place. Returns false (and changes nothing) if the old
+ * entry isn't in the document.
+ */
+export function replaceEntry(doc: MemoryDocument, ref: EntryRef, newEntry: string): boolean {
+  const found = findEntry(doc, ref);
+  if (!found) return false;
+  found.section.lines.splice(found.index, found.length, ...newEntry.split("\n"));
+  return true;
+}
+
+/**
+ * The category for entries in a section, the reverse of sectionTitleFor:
+ * "Preferences" → "preference", "People" → "person".
+ */
+export function categoryForSection(title: string): string {
+  const key = normalize(title);
+  const alias = Object.entries(SECTION_ALIASES).find(([, section]) => section === key);
+  if (alias) return alias[0];
+  return key.endsWith("s") && key.length > 1 ? key.slice(0, -1) : key;
+}
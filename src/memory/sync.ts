@@ -0,0 +1,263 @@
+/**
+ * Two-way reconciliation of MEMORY.md and the memories table.
+ *
+ * Each entry in the file carries a `<!-- mem:ID -->` tag naming its row, and
+ * each row remembers the content the two sides last agreed on
+ * (synced_content). Comparing file, row and that last-synced copy tells which
+ * side changed:
+ *
+ *   - untagged entry            → new in the file: create a memory (or link it
+ *                                 to an unsynced memory with the same text)
+ *   - row never synced          → new in the DB: add it to the file
+ *   - file changed, row didn't  → update the row (and its category, if the
+ *                                 entry moved to another section)
+ *   - row changed, file didn't  → rewrite the entry
+ *   - entry gone from the file  → forget the memory (unless the file is
+ *                                 missing or has no sections: nothing syncs)
+ *   - row gone, forgotten,
+ *     superseded or expired     → remove the entry
+ *
+ * When both sides changed, the entry is left alone on both sides and
+ * reported as a conflict until someone makes them agree.
+ */
+
+import { getDb } from "@/db/index.ts";
+import {
+  createMemory,
+  forgetMemory,
+  getMemory,
+  isMemoryCurrent,
+  listMemories,
+  markMemorySynced,
+  updateMemory,
+  type Memory,
+} from "@/db/memories.ts";
+import { readMemory, updateMemoryFile } from "./index.ts";
+import {
+  categoryForSection,
+  findSection,
+  formatEntry,
+  insertEntry,
+  listEntries,
+  parseMemoryDocument,
+  removeEntry,
+  replaceEntry,
+  type MemoryDocument,
+  type MemoryEntry,
+} from "./sections.ts";
+
+/** Source recorded for memories created from hand-written MEMORY.md entries. */
+export const MEMORY_FILE_SOURCE = "memory-file";
+
+export interface SyncConflict {
+  id: number;
+  reason: string;
+  /** The entry's text in MEMORY.md; null when it was deleted there. */
+  file: string | null;
+  /** The memory's content in the DB; null when the row is gone. */
+  db: string | null;
+}
+
+/** Memory ids touched by a sync, by what happened to them. */
+export interface SyncReport {
+  /** Memories created from new MEMORY.md entries. */
+  dbAdded: number[];
+  /** Memories updated from edited MEMORY.md entries. */
+  dbUpdated: number[];
+  /** Memories forgotten because their entry was deleted from MEMORY.md. */
+  dbForgotten: number[];
+  /** Memories written to MEMORY.md for the first time. */
+  fileAdded: number[];
+  /** Entries rewritten because the memory changed in the DB. */
+  fileUpdated: number[];
+  /** Entries removed because the memory was deleted, forgotten, superseded or expired. */
+  fileRemoved: number[];
+  /** Untagged entries matched to an existing memory and tagged with its id. */
+  linked: number[];
+  conflicts: SyncConflict[];
+}
+
+function emptyReport(): SyncReport {
+  return {
+    dbAdded: [],
+    dbUpdated: [],
+    dbForgotten: [],
+    fileAdded: [],
+    fileUpdated: [],
+    fileRemoved: [],
+    linked: [],
+    conflicts: [],
+  };
+}
+
+/** Whether a sync changed anything on either side. */
+export function hasSyncChanges(report: SyncReport): boolean {
+  const { conflicts: _conflicts, ...changes } = report;
+  return Object.values(changes).some((ids) => ids.length > 0);
+}
+
+/** Reconcile MEMORY.md and the memories table. Holds the file lock throughout. */
+export async function syncMemoryFile(): Promise<SyncReport> {
+  const report = emptyReport();
+  await updateMemoryFile((doc) => getDb().transaction(() => reconcile(doc, report))());
+  return report;
+}
+
+/**
+ * Work out what a sync would do without doing it. The reconciliation runs in
+ * a transaction that is rolled back and MEMORY.md is left as it is; `inspect`
+ * runs before the rollback, so it sees the database as the sync would leave it.
+ */
+export async function previewMemorySync<T>(
+  inspect: () => T,
+): Promise<{ report: SyncReport; result: T }> {
+  const report = emptyReport();
+  const doc = parseMemoryDocument(await readMemory());
+  const db = getDb();
+  db.exec("BEGIN");
+  try {
+    reconcile(doc, report);
+    return { report, result: inspect() };
+  } finally {
+    db.exec("ROLLBACK");
+  }
+}
+
+/** Apply the sync rules to a parsed file. Returns whether the file changed. */
+function reconcile(doc: MemoryDocument, report: SyncReport): boolean {
+  // A missing MEMORY.md, or one without sections, says nothing about which
+  // entries were deleted; forgetting every synced memory would be wrong
+  if (doc.sections.length === 0) return false;
+
+  let fileChanged = false;
+  const seen = new Set<number>();
+
+  // Unsynced memories an untagged entry with the same text can be linked to
+  const unsynced = new Map<string, Memory[]>();
+  for (const memory of listMemories()) {
+    if (memory.synced_content !== null) continue;
+    const key = memory.content.trim();
+    unsynced.set(key, [...(unsynced.get(key) ?? []), memory]);
+  }
+
+  for (const entry of listEntries(doc)) {
+    if (entry.id === null) {
+      const category = categoryForSection(entry.section.title);
+      const ref = { category, content: entry.content };
+      const linked = unsynced.get(entry.content)?.find((m) => !seen.has(m.id));
+      const memory = linked ?? createMemory(category, entry.content, MEMORY_FILE_SOURCE);
+      replaceEntry(doc, ref, formatEntry(entry.content, memory.id));
+      markMemorySynced(memory.id, entry.content);
+      seen.add(memory.id);
+      (linked ? report.linked : report.dbAdded).push(memory.id);
+      fileChanged = true;
+      continue;
+    }
+
+    if (seen.has(entry.id)) {
+      report.conflicts.push({
+        id: entry.id,
+        reason: "the same id tag appears more than once in MEMORY.md",
+        file: entry.content,
+        db: getMemory(entry.id)?.content ?? null,
+      });
+      continue;
+    }
+    seen.add(entry.id);
+    fileChanged = reconcileTaggedEntry(doc, entry, entry.id, report) || fileChanged;
+  }
+
+  // Current memories without an entry: new in the DB, or deleted from the file
+  for (const memory of listMemories()) {
+    if (seen.has(memory.id)) continue;
+    if (memory.synced_content === null) {
+      insertEntry(doc, memory.category, formatEntry(memory.content, memory.id));
+      markMemorySynced(memory.id, memory.content);
+      report.fileAdded.push(memory.id);
+      fileChanged = true;
+    } else if (memory.content.trim() === memory.synced_content.trim()) {
+      forgetMemory(memory.id);
+      report.dbForgotten.push(memory.id);
+    } else {
+      report.conflicts.push({
+        id: memory.id,
+        reason:
+          "deleted from MEMORY.md but changed in the database; put the entry back or " +
+          `run \`fryler memory forget ${memory.id}\``,
+        file: null,
+        db: memory.content,
+      });
+    }
+  }
+
+  return fileChanged;
+}
+
+function inactiveState(memory: Memory): string {
+  if (memory.forgotten_at) return "forgotten";
+  if (memory.superseded_by) return "superseded";
+  return "expired";
+}
+
+/** Sync one tagged entry with its row. Returns whether the file changed. */
+function reconcileTaggedEntry(
+  doc: MemoryDocument,
+  entry: MemoryEntry,
+  id: number,
+  report: SyncReport,
+): boolean {
+  const memory = getMemory(id);
+  const fileContent = entry.content;
+
+  if (!memory || !isMemoryCurrent(memory)) {
+    // Only drop the entry if nobody has edited it since the memory went away
+    const synced = memory?.synced_content?.trim();
+    if (memory && synced !== undefined && synced !== fileContent) {
+      report.conflicts.push({
+        id,
+        reason: `${inactiveState(memory)} in the database but edited in MEMORY.md`,
+        file: fileContent,
+        db: memory.content,
+      });
+      return false;
+    }
+    removeEntry(doc, { id, category: entry.section.title, content: fileContent });
+    report.fileRemoved.push(id);
+    return true;
+  }
+
+  const dbContent = memory.content.trim();
+  const synced = memory.synced_content?.trim() ?? null;
+  // The section an entry sits in decides its category
+  const category =
+    findSection(doc, memory.category) === entry.section
+      ? memory.category
+      : categoryForSection(entry.section.title);
+
+  if (fileContent === dbContent || synced === dbContent) {
+    // In step, or only the file changed: the file wins
+    if (fileContent !== dbContent || category !== memory.category) {
+      updateMemory(id, { content: fileContent, category });
+      report.dbUpdated.push(id);
+    }
+    if (synced !== fileContent) markMemorySynced(id, fileContent);
+    return false;
+  }
+
+  if (synced === fileContent) {
+    // Only the DB changed: rewrite the entry where it is
+    replaceEntry(doc, { id, category, content: fileContent }, formatEntry(dbContent, id));
+    if (category !== memory.category) updateMemory(id, { category });
+    markMemorySynced(id, dbContent);
+    report.fileUpdated.push(id);
+    return true;
+  }
+
+  report.conflicts.push({
+    id,
+    reason: "changed in both MEMORY.md and the database since the last sync",
+    file: fileContent,
+    db: dbContent,
+  });
+  return false;
+}
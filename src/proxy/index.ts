@@ -28,7 +28,7 @@ import {
 import type { FrylerConfig } from "../config/index.ts";
 
 /** Commands that need TTY passthrough (stdin: "inherit"). */
-const INTERACTIVE_COMMANDS = new Set(["chat", "resume", "login", "voice"]);
+const INTERACTIVE_COMMANDS = new Set(["chat", "resume", "login", "voice", "sessions fork"]);
 
 /**
  * Proxy a CLI invocation into the running container.
@@ -234,6 +234,6 @@ export async function hostStatus(config: FrylerConfig): Promise<void> {
 /**
  * Determine if a command is interactive (needs TTY).
  */
-export function isInteractiveCommand(command: string): boolean {
-  return INTERACTIVE_COMMANDS.has(command);
+export function isInteractiveCommand(command: string, subcommand?: string): boolean {
+  return INTERACTIVE_COMMANDS.has(command) || INTERACTIVE_COMMANDS.has(`${command} ${subcommand}`);
 }
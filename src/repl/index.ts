@@ -1,25 +1,29 @@
 /**
  * Interactive terminal REPL for fryler sessions.
- * Streams responses from Claude CLI and tracks sessions in the DB.
+ * Streams responses from Claude CLI and tracks sessions, with their
+ * transcripts, in the DB.
  */
 
 import { createInterface } from "node:readline/promises";
 import { stdin, stdout } from "node:process";
-import { askStreaming, type AskOptions } from "@/claude/client.ts";
-import { createSession, getSession, updateSession } from "@/db/sessions.ts";
-import { parseClaudeResponse } from "@/tasks/parser.ts";
-import { createTask } from "@/db/tasks.ts";
-import { createMemory } from "@/db/memories.ts";
-import { appendMemory } from "@/memory/index.ts";
+import { askStreaming, summarizeToolUse, type AskOptions } from "@/claude/client.ts";
+import { createSession, getSession, updateSession, type SessionKind } from "@/db/sessions.ts";
+import { recordExchange } from "@/db/messages.ts";
+import { parseClaudeResponse, type ParseResult } from "@/tasks/parser.ts";
+import { createTasksFromMarkers } from "@/tasks/create.ts";
+import { storeMemory, reviseMemory, retractMemory, type MemoryOrigin } from "@/memory/index.ts";
 import { writeSayAction } from "@/outbox/index.ts";
 import { logger } from "@/logger/index.ts";
 
 export interface ReplOptions {
+  /** Tracked session to resume. */
   sessionId?: string;
-  autoResume?: boolean;
+  /** Session to branch from: the first message starts a fork of it. */
+  forkFrom?: string;
   voice?: string;
   systemPrompt?: string;
-  sessionPrefix?: string;
+  /** Kind recorded for a new session (default: chat). */
+  kind?: SessionKind;
   model?: string;
 }
 
@@ -27,15 +31,18 @@ export async function startRepl(options?: ReplOptions): Promise<void> {
   const rl = createInterface({ input: stdin, output: stdout });
 
   let sessionId: string | null = options?.sessionId ?? null;
-  let hasExchanged = false; // true after first successful message in this session
-  let messageCount = 0;
+  let messageCount = sessionId ? (getSession(sessionId)?.message_count ?? 0) : 0;
+  // Set by `fryler sessions fork` and /fork; the next message branches from it
+  let forkFrom: string | null = options?.forkFrom ?? null;
 
   if (options?.voice) {
     console.log(`fryler voice mode (${options.voice}). Type /help for commands, /quit to exit.`);
   } else {
     console.log("fryler interactive mode. Type /help for commands, /quit to exit.");
   }
-  if (sessionId) {
+  if (forkFrom) {
+    console.log(`Forking session: ${forkFrom} (your first message starts the branch)`);
+  } else if (sessionId) {
     console.log(`Resuming session: ${sessionId}`);
   }
   console.log();
@@ -57,10 +64,14 @@ export async function startRepl(options?: ReplOptions): Promise<void> {
         input,
         () => {
           sessionId = null;
-          hasExchanged = false;
+          forkFrom = null;
           messageCount = 0;
         },
-        sessionId,
+        () => {
+          forkFrom ??= sessionId;
+          messageCount = 0;
+        },
+        forkFrom ?? sessionId,
       );
       if (handled === "quit") break;
       if (handled === "handled") continue;
@@ -71,24 +82,26 @@ export async function startRepl(options?: ReplOptions): Promise<void> {
 
     // Send to Claude with streaming
     try {
-      const askOpts: AskOptions = {};
+      const askOpts: AskOptions = { source: options?.voice ? "voice" : "chat" };
       if (options?.systemPrompt) {
         askOpts.systemPrompt = options.systemPrompt;
       }
       if (options?.model) {
         askOpts.model = options.model;
       }
-      if (hasExchanged || options?.autoResume) {
-        // Use --continue to resume without session lock conflicts
-        askOpts.continueSession = true;
+      if (forkFrom) {
+        askOpts.resumeSessionId = forkFrom;
+        askOpts.forkSession = true;
       } else if (sessionId) {
-        // Explicit session ID (e.g., fryler resume <id>)
-        askOpts.sessionId = sessionId;
+        // Resume this session by id; --continue would pick up whatever ran last
+        askOpts.resumeSessionId = sessionId;
       }
 
       let fullResult = "";
       let resultSessionId = "";
       let lastTextLength = 0;
+      // Tool calls for the transcript, by tool_use id (each message is re-sent as it grows)
+      const tools = new Map<string, string>();
 
       process.stdout.write("\n");
 
@@ -102,6 +115,8 @@ export async function startRepl(options?: ReplOptions): Promise<void> {
               if (block.type === "text" && typeof block.text === "string") {
                 currentText += block.text;
               }
+              const tool = summarizeToolUse(block);
+              if (tool) tools.set(String(block.id ?? tools.size), tool);
             }
             // New assistant turn (after tool use) — text resets, so reset our counter
             if (currentText.length < lastTextLength) {
@@ -123,9 +138,10 @@ export async function startRepl(options?: ReplOptions): Promise<void> {
         }
       }
 
+      const parsed = fullResult ? parseClaudeResponse(fullResult) : null;
+
       // If streaming didn't display text, show the full result
-      if (lastTextLength === 0 && fullResult) {
-        const parsed = parseClaudeResponse(fullResult);
+      if (lastTextLength === 0 && parsed) {
         process.stdout.write(parsed.cleanText);
       }
 
@@ -133,30 +149,46 @@ export async function startRepl(options?: ReplOptions): Promise<void> {
 
       // Track session in DB
       if (resultSessionId) {
-        if (!sessionId) {
-          sessionId = resultSessionId;
-          // Only create if not already tracked (e.g. auto-resumed via --continue)
-          if (!getSession(sessionId)) {
-            const prefix = options?.sessionPrefix ?? "[chat]";
-            createSession(sessionId, `${prefix} ${input.slice(0, 80)}`);
+        sessionId = resultSessionId;
+        // Only create if not already tracked (e.g. resumed)
+        if (!getSession(sessionId)) {
+          const parent = forkFrom ? getSession(forkFrom) : null;
+          if (parent) {
+            createSession(
+              sessionId,
+              `${parent.title ?? "(untitled)"} (fork)`,
+              parent.kind ?? options?.kind ?? "chat",
+              parent.id,
+            );
+          } else {
+            createSession(sessionId, input.slice(0, 80), options?.kind ?? "chat");
           }
         }
-        hasExchanged = true;
+        forkFrom = null;
         messageCount++;
         updateSession(sessionId, messageCount);
+
+        const session = getSession(sessionId);
+        if (session) {
+          recordExchange(session.id, {
+            prompt: input,
+            tools: [...tools.values()],
+            response: parsed?.cleanText ?? "",
+          });
+        }
       }
 
       // Silently process markers from the full result
-      if (fullResult) {
-        await processMarkers(fullResult);
+      if (parsed) {
+        await processMarkers(parsed, {
+          sessionId: resultSessionId || sessionId,
+          prompt: input,
+        });
       }
 
       // Auto-speak response in voice mode
-      if (options?.voice && fullResult) {
-        const voiceParsed = parseClaudeResponse(fullResult);
-        if (voiceParsed.cleanText) {
-          await writeSayAction(voiceParsed.cleanText, options.voice);
-        }
+      if (options?.voice && parsed?.cleanText) {
+        await writeSayAction(parsed.cleanText, options.voice);
       }
     } catch (err) {
       console.error("\nError:", err instanceof Error ? err.message : String(err));
@@ -174,6 +206,7 @@ export async function startRepl(options?: ReplOptions): Promise<void> {
 function handleSlashCommand(
   input: string,
   resetSession: () => void,
+  forkSession: () => void,
   sessionId: string | null,
 ): "quit" | "handled" | "unknown" {
   const cmd = input.split(/\s+/)[0]!.toLowerCase();
@@ -188,6 +221,16 @@ function handleSlashCommand(
     return "handled";
   }
 
+  if (cmd === "/fork") {
+    if (!sessionId) {
+      console.log("No active session to fork.\n");
+      return "handled";
+    }
+    forkSession();
+    console.log(`Forking session ${sessionId}; your next message starts the branch.\n`);
+    return "handled";
+  }
+
   if (cmd === "/session") {
     console.log(sessionId ? `Session: ${sessionId}` : "No active session");
     console.log();
@@ -197,6 +240,7 @@ function handleSlashCommand(
   if (cmd === "/help") {
     console.log("Commands:");
     console.log("  /new       Start a new conversation");
+    console.log("  /fork      Branch the conversation; the original stays as it was");
     console.log("  /session   Show current session ID");
     console.log("  /quit      Exit the REPL");
     console.log("  /help      Show this help");
@@ -208,19 +252,23 @@ function handleSlashCommand(
 }
 
 /**
- * Extract tasks and memories from a Claude response and persist them.
+ * Extract tasks, memories and memory changes from a Claude response and persist them.
  */
-async function processMarkers(text: string): Promise<void> {
-  const parsed = parseClaudeResponse(text);
+async function processMarkers(parsed: ParseResult, origin: MemoryOrigin): Promise<void> {
+  for (const task of createTasksFromMarkers(parsed.tasks)) {
+    logger.info("REPL: created task from response", { id: task.id, title: task.title });
+  }
+
+  for (const update of parsed.memoryUpdates) {
+    await reviseMemory(update, update.content, "repl", update.reason);
+  }
 
-  for (const task of parsed.tasks) {
-    createTask(task);
-    logger.info("REPL: created task from response", { title: task.title });
+  for (const forget of parsed.forgets) {
+    await retractMemory(forget, "repl", forget.reason);
   }
 
   for (const mem of parsed.memories) {
-    createMemory(mem.category, mem.content, "repl");
-    await appendMemory(mem.content);
+    await storeMemory(mem.category, mem.content, "repl", origin, mem);
     logger.info("REPL: stored memory from response", {
       category: mem.category,
     });
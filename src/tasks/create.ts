@@ -0,0 +1,64 @@
+/**
+ * Turn parsed FRYLER_TASK markers into task rows, wiring up dependencies
+ * between markers from the same response.
+ */
+
+import { getDb } from "@/db/index.ts";
+import { createTask, addTaskDependency, type Task } from "@/db/tasks.ts";
+import { logger } from "@/logger/index.ts";
+import type { ParsedTask } from "./parser.ts";
+
+/**
+ * Create every parsed task, then resolve `depends_on` entries: strings refer
+ * to the `ref` of a sibling marker, numbers to an existing task id.
+ * Unresolvable or cyclic dependencies are logged and skipped. Runs as one
+ * transaction, so the heartbeat never sees a task before its dependencies.
+ */
+export function createTasksFromMarkers(parsed: ParsedTask[]): Task[] {
+  return getDb().transaction(() => insertTasks(parsed))();
+}
+
+function insertTasks(parsed: ParsedTask[]): Task[] {
+  const created: Task[] = [];
+  const byRef = new Map<string, number>();
+
+  for (const p of parsed) {
+    const task = createTask({
+      title: p.title,
+      description: p.description,
+      priority: p.priority,
+      scheduled_at: p.scheduled_at,
+      cwd: p.cwd,
+      recurrence: p.recurrence,
+    });
+    created.push(task);
+    if (p.ref) {
+      if (byRef.has(p.ref)) {
+        logger.warn("Duplicate task ref in response, keeping the first", { ref: p.ref });
+      } else {
+        byRef.set(p.ref, task.id);
+      }
+    }
+  }
+
+  parsed.forEach((p, i) => {
+    const task = created[i]!;
+    for (const dep of p.depends_on) {
+      const dependsOnId = typeof dep === "number" ? dep : byRef.get(dep);
+      if (dependsOnId === undefined) {
+        logger.warn(`Task #${task.id} depends on unknown ref, ignoring`, { ref: dep });
+        continue;
+      }
+      try {
+        addTaskDependency(task.id, dependsOnId);
+      } catch (err) {
+        logger.warn(`Could not add dependency to task #${task.id}`, {
+          depends_on: dependsOnId,
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+    }
+  });
+
+  return created;
+}
@@ -0,0 +1,67 @@
+/**
+ * Built-in task handlers — maintenance work that runs through the task
+ * system (scheduling, leases, retries, cancellation) but is carried out by
+ * fryler's own code rather than a free-form Claude prompt. A task names its
+ * handler in tasks.handler.
+ */
+
+import type { Task } from "@/db/tasks.ts";
+import type { FrylerConfig } from "@/config/index.ts";
+import {
+  planConsolidation,
+  applyConsolidation,
+  formatConsolidationDiff,
+} from "@/memory/consolidate.ts";
+
+export interface TaskHandlerContext {
+  task: Task;
+  config: FrylerConfig;
+  /** Aborts when the task is cancelled. */
+  signal: AbortSignal;
+  timeoutMs?: number;
+}
+
+/** Runs the task and returns its result text. Throwing fails (or retries) the task. */
+export type TaskHandler = (context: TaskHandlerContext) => Promise<string>;
+
+export const CONSOLIDATE_MEMORIES = "consolidate-memories";
+
+async function consolidateMemories({
+  task,
+  config,
+  signal,
+  timeoutMs,
+}: TaskHandlerContext): Promise<string> {
+  const plan = await planConsolidation({
+    minEntries: config.memory_consolidation_min_entries,
+    askOptions: {
+      signal,
+      timeoutMs,
+      taskId: task.id,
+      source: "heartbeat",
+      maxBudgetUsd: config.task_budget_usd > 0 ? config.task_budget_usd : undefined,
+    },
+  });
+  if (plan.merges.length === 0) {
+    return plan.categories.length === 0
+      ? "No category has enough memories to consolidate."
+      : `Reviewed ${plan.categories.join(", ")}; nothing to merge.`;
+  }
+
+  const applied = await applyConsolidation(plan);
+  const merged = applied.reduce((n, m) => n + m.sources.length, 0);
+  const skipped = plan.merges.length - applied.length;
+  return (
+    `Merged ${merged} memories into ${applied.length} ${applied.length === 1 ? "summary" : "summaries"}` +
+    (skipped > 0 ? ` (${skipped} skipped: memories changed meanwhile)` : "") +
+    `.\n\n${formatConsolidationDiff(applied)}`
+  );
+}
+
+const HANDLERS: Record<string, TaskHandler> = {
+  [CONSOLIDATE_MEMORIES]: consolidateMemories,
+};
+
+export function getTaskHandler(name: string): TaskHandler | null {
+  return HANDLERS[name] ?? null;
+}
@@ -1,8 +1,11 @@
 /**
- * Extract FRYLER_TASK and FRYLER_MEMORY markers from Claude CLI responses.
+ * Extract FRYLER_TASK, FRYLER_MEMORY, FRYLER_MEMORY_UPDATE, FRYLER_FORGET and
+ * FRYLER_SAY markers from Claude CLI responses.
  */
 
 import { logger } from "@/logger/index.ts";
+import { isValidCron } from "./recurrence.ts";
+import { parseDuration } from "@/time/index.ts";
 
 export interface ParsedTask {
   title: string;
@@ -10,11 +13,39 @@ export interface ParsedTask {
   priority: number;
   scheduled_at: string | null;
   cwd: string | null;
+  recurrence: string | null;
+  /** Local name other markers in the same response can depend on. */
+  ref: string | null;
+  /** Local refs (strings) or existing task ids (numbers) this task waits on. */
+  depends_on: (string | number)[];
 }
 
 export interface ParsedMemory {
   category: string;
   content: string;
+  /** When the memory stops being true (date/datetime). */
+  expires_at: string | null;
+  /** How long the memory stays true ("3d"); used when expires_at isn't given. */
+  ttl: string | null;
+}
+
+/**
+ * Which existing memory a FRYLER_MEMORY_UPDATE or FRYLER_FORGET marker means:
+ * its id, or text matching its content (optionally within one category).
+ */
+export interface ParsedMemoryRef {
+  id: number | null;
+  match: string | null;
+  category: string | null;
+}
+
+export interface ParsedMemoryUpdate extends ParsedMemoryRef {
+  content: string;
+  reason: string | null;
+}
+
+export interface ParsedForget extends ParsedMemoryRef {
+  reason: string | null;
 }
 
 export interface ParsedSay {
@@ -26,6 +57,8 @@ export interface ParseResult {
   cleanText: string;
   tasks: ParsedTask[];
   memories: ParsedMemory[];
+  memoryUpdates: ParsedMemoryUpdate[];
+  forgets: ParsedForget[];
   says: ParsedSay[];
 }
 
@@ -73,12 +106,32 @@ function validateTask(raw: unknown): ParsedTask | null {
     priority = obj.priority;
   }
 
+  let recurrence: string | null = null;
+  if (typeof obj.recurrence === "string" && obj.recurrence.trim() !== "") {
+    if (isValidCron(obj.recurrence)) {
+      recurrence = obj.recurrence.trim();
+    } else {
+      logger.warn("Task marker has invalid recurrence, ignoring it", {
+        recurrence: obj.recurrence,
+      });
+    }
+  }
+
+  const rawDeps = Array.isArray(obj.depends_on) ? obj.depends_on : [obj.depends_on];
+  const dependsOn = rawDeps.filter(
+    (d): d is string | number =>
+      (typeof d === "string" && d.trim() !== "") || (typeof d === "number" && Number.isInteger(d)),
+  );
+
   return {
     title: obj.title,
     description: typeof obj.description === "string" ? obj.description : "",
     priority,
     scheduled_at: typeof obj.scheduled_at === "string" ? obj.scheduled_at : null,
     cwd: typeof obj.cwd === "string" && obj.cwd.trim() !== "" ? obj.cwd : null,
+    recurrence,
+    ref: typeof obj.ref === "string" && obj.ref.trim() !== "" ? obj.ref.trim() : null,
+    depends_on: dependsOn.map((d) => (typeof d === "string" ? d.trim() : d)),
   };
 }
 
@@ -104,9 +157,102 @@ function validateMemory(raw: unknown): ParsedMemory | null {
     return null;
   }
 
+  let expiresAt: string | null = null;
+  if (typeof obj.expires_at === "string" && obj.expires_at.trim() !== "") {
+    if (isNaN(new Date(obj.expires_at).getTime())) {
+      logger.warn("Memory marker has invalid expires_at, ignoring it", {
+        expires_at: obj.expires_at,
+      });
+    } else {
+      expiresAt = obj.expires_at.trim();
+    }
+  }
+
+  let ttl: string | null = null;
+  if (typeof obj.ttl === "string" && obj.ttl.trim() !== "") {
+    try {
+      parseDuration(obj.ttl);
+      ttl = obj.ttl.trim();
+    } catch {
+      logger.warn("Memory marker has invalid ttl, ignoring it", { ttl: obj.ttl });
+    }
+  }
+
   return {
     category: obj.category,
     content: obj.content,
+    expires_at: expiresAt,
+    ttl,
+  };
+}
+
+/**
+ * Validate the id/match/category fields shared by update and forget markers.
+ * Returns null if the marker names no memory.
+ */
+function validateMemoryRef(
+  obj: Record<string, unknown>,
+  markerName: string,
+): ParsedMemoryRef | null {
+  const id = typeof obj.id === "number" && Number.isInteger(obj.id) && obj.id > 0 ? obj.id : null;
+  const match = typeof obj.match === "string" && obj.match.trim() !== "" ? obj.match.trim() : null;
+
+  if (id === null && match === null) {
+    logger.warn(`${markerName} marker needs an id or match field`, { raw: obj });
+    return null;
+  }
+
+  return {
+    id,
+    match,
+    category:
+      typeof obj.category === "string" && obj.category.trim() !== "" ? obj.category.trim() : null,
+  };
+}
+
+/**
+ * Validate and normalize a parsed memory update object.
+ * Returns null if the update is invalid (no memory named or missing content).
+ */
+function validateMemoryUpdate(raw: unknown): ParsedMemoryUpdate | null {
+  if (typeof raw !== "object" || raw === null) {
+    logger.warn("Memory update marker JSON is not an object");
+    return null;
+  }
+
+  const obj = raw as Record<string, unknown>;
+  const ref = validateMemoryRef(obj, "Memory update");
+  if (!ref) return null;
+
+  if (typeof obj.content !== "string" || obj.content.trim() === "") {
+    logger.warn("Memory update marker missing required content field", { raw: obj });
+    return null;
+  }
+
+  return {
+    ...ref,
+    content: obj.content,
+    reason: typeof obj.reason === "string" && obj.reason.trim() !== "" ? obj.reason : null,
+  };
+}
+
+/**
+ * Validate and normalize a parsed forget object.
+ * Returns null if the forget is invalid (no memory named).
+ */
+function validateForget(raw: unknown): ParsedForget | null {
+  if (typeof raw !== "object" || raw === null) {
+    logger.warn("Forget marker JSON is not an object");
+    return null;
+  }
+
+  const obj = raw as Record<string, unknown>;
+  const ref = validateMemoryRef(obj, "Forget");
+  if (!ref) return null;
+
+  return {
+    ...ref,
+    reason: typeof obj.reason === "string" && obj.reason.trim() !== "" ? obj.reason : null,
   };
 }
 
@@ -134,12 +280,15 @@ function validateSay(raw: unknown): ParsedSay | null {
 }
 
 /**
- * Parse a raw Claude response, extracting task, memory, and say markers.
- * Returns clean text (all markers stripped) plus parsed tasks, memories, and says.
+ * Parse a raw Claude response, extracting task, memory, memory update, forget
+ * and say markers. Returns clean text (all markers stripped) plus the parsed
+ * markers of each kind.
  */
 export function parseClaudeResponse(rawText: string): ParseResult {
   const tasks: ParsedTask[] = [];
   const memories: ParsedMemory[] = [];
+  const memoryUpdates: ParsedMemoryUpdate[] = [];
+  const forgets: ParsedForget[] = [];
   const says: ParsedSay[] = [];
   let cleanText = rawText;
 
@@ -175,6 +324,38 @@ export function parseClaudeResponse(rawText: string): ParseResult {
     cleanText = cleanText.replace(marker.fullMatch, "");
   }
 
+  const updateMarkers = extractMarkers(rawText, "MEMORY_UPDATE");
+  for (const marker of updateMarkers) {
+    try {
+      const parsed = JSON.parse(marker.json);
+      const update = validateMemoryUpdate(parsed);
+      if (update) {
+        memoryUpdates.push(update);
+      }
+    } catch {
+      logger.warn("Failed to parse memory update marker JSON", {
+        json: marker.json,
+      });
+    }
+    cleanText = cleanText.replace(marker.fullMatch, "");
+  }
+
+  const forgetMarkers = extractMarkers(rawText, "FORGET");
+  for (const marker of forgetMarkers) {
+    try {
+      const parsed = JSON.parse(marker.json);
+      const forget = validateForget(parsed);
+      if (forget) {
+        forgets.push(forget);
+      }
+    } catch {
+      logger.warn("Failed to parse forget marker JSON", {
+        json: marker.json,
+      });
+    }
+    cleanText = cleanText.replace(marker.fullMatch, "");
+  }
+
   const sayMarkers = extractMarkers(rawText, "SAY");
   for (const marker of sayMarkers) {
     try {
@@ -194,5 +375,5 @@ export function parseClaudeResponse(rawText: string): ParseResult {
   // Collapse any leftover blank lines from marker removal and trim trailing whitespace
   cleanText = cleanText.replace(/\n{3,}/g, "\n\n").trim();
 
-  return { cleanText, tasks, memories, says };
+  return { cleanText, tasks, memories, memoryUpdates, forgets, says };
 }
@@ -0,0 +1,178 @@
+/**
+ * Cron-style recurrence schedules for repeating tasks.
+ *
+ * Supports standard 5-field expressions (minute hour day-of-month month day-of-week)
+ * with `*`, lists, ranges and steps, plus the @hourly/@daily/@weekly/@monthly/@yearly
+ * aliases. Schedules are evaluated in the daemon's local time.
+ */
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** True when day-of-month was not `*` (cron ORs the two day fields when both are set). */
+  domRestricted: boolean;
+  dowRestricted: boolean;
+}
+
+const ALIASES: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+};
+
+const FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day-of-month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day-of-week", min: 0, max: 7 },
+] as const;
+
+/** How far ahead nextOccurrence searches before giving up (e.g. "0 0 31 2 *"). */
+const MAX_LOOKAHEAD_YEARS = 5;
+
+function parseNumber(value: string, field: (typeof FIELDS)[number]): number {
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Invalid cron ${field.name} value: "${value}"`);
+  }
+  const n = Number(value);
+  if (n < field.min || n > field.max) {
+    throw new Error(`Cron ${field.name} value ${n} out of range ${field.min}-${field.max}`);
+  }
+  return n;
+}
+
+function parseField(raw: string, field: (typeof FIELDS)[number]): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of raw.split(",")) {
+    const [range, stepRaw] = part.split("/");
+    let step = 1;
+    if (stepRaw !== undefined) {
+      if (!/^\d+$/.test(stepRaw) || Number(stepRaw) < 1) {
+        throw new Error(`Invalid cron ${field.name} step: "${part}"`);
+      }
+      step = Number(stepRaw);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      start = field.min;
+      end = field.max;
+    } else if (range?.includes("-")) {
+      const [a, b] = range.split("-");
+      start = parseNumber(a ?? "", field);
+      end = parseNumber(b ?? "", field);
+      if (start > end) {
+        throw new Error(`Invalid cron ${field.name} range: "${range}"`);
+      }
+    } else {
+      start = parseNumber(range ?? "", field);
+      // "5/15" means "every 15 starting at 5"
+      end = stepRaw !== undefined ? field.max : start;
+    }
+
+    for (let n = start; n <= end; n += step) {
+      values.add(n);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a cron expression. Throws an Error describing the first invalid field.
+ */
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const expanded = ALIASES[trimmed.toLowerCase()] ?? trimmed;
+  const parts = expanded.split(/\s+/);
+
+  if (parts.length !== 5) {
+    throw new Error(`Cron expression must have 5 fields, got ${parts.length}: "${expression}"`);
+  }
+
+  const [minute, hour, dom, month, dow] = parts as [string, string, string, string, string];
+  const daysOfWeek = parseField(dow, FIELDS[4]);
+  // Both 0 and 7 mean Sunday
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes: parseField(minute, FIELDS[0]),
+    hours: parseField(hour, FIELDS[1]),
+    daysOfMonth: parseField(dom, FIELDS[2]),
+    months: parseField(month, FIELDS[3]),
+    daysOfWeek,
+    domRestricted: !dom.startsWith("*"),
+    dowRestricted: !dow.startsWith("*"),
+  };
+}
+
+/**
+ * True when the expression parses and actually occurs — "0 0 31 2 *" is
+ * syntactically fine but never fires, so it is rejected too.
+ */
+export function isValidCron(expression: string): boolean {
+  try {
+    nextOccurrence(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function dayMatches(schedule: CronSchedule, date: Date): boolean {
+  const dom = schedule.daysOfMonth.has(date.getDate());
+  const dow = schedule.daysOfWeek.has(date.getDay());
+  if (schedule.domRestricted && schedule.dowRestricted) return dom || dow;
+  if (schedule.domRestricted) return dom;
+  if (schedule.dowRestricted) return dow;
+  return true;
+}
+
+/**
+ * Return the first time strictly after `after` that matches the expression.
+ */
+export function nextOccurrence(expression: string, after: Date = new Date()): Date {
+  const schedule = parseCron(expression);
+  const date = new Date(after.getTime());
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+
+  const lastYear = after.getFullYear() + MAX_LOOKAHEAD_YEARS;
+
+  while (date.getFullYear() <= lastYear) {
+    if (!schedule.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!dayMatches(schedule, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0);
+      continue;
+    }
+    return date;
+  }
+
+  throw new Error(`No occurrence of "${expression}" within ${MAX_LOOKAHEAD_YEARS} years`);
+}
@@ -0,0 +1,41 @@
+/**
+ * Retry policy for heartbeat tasks: which failures are worth retrying,
+ * and how long to wait between attempts.
+ */
+
+/**
+ * Failure messages that point at a transient problem (rate limits, overload,
+ * network trouble) rather than something wrong with the task itself.
+ * Matched against the stderr of a failed claude process.
+ */
+const RETRYABLE_PATTERNS: RegExp[] = [
+  /rate.?limit/i,
+  /too many requests/i,
+  /\b429\b/,
+  /overloaded/i,
+  /\b529\b/,
+  /API Error:?\s*5\d\d/i,
+  /\b(502|503|504)\b/,
+  /internal server error/i,
+  /service unavailable/i,
+  /temporarily unavailable/i,
+  /ECONNRESET|ECONNREFUSED|ETIMEDOUT|ENOTFOUND|EAI_AGAIN|ENETUNREACH/,
+  /socket hang up/i,
+  /fetch failed/i,
+  /network error/i,
+  /connection (error|reset|refused)/i,
+];
+
+export function isRetryableError(message: string): boolean {
+  return RETRYABLE_PATTERNS.some((pattern) => pattern.test(message));
+}
+
+/**
+ * Exponential backoff: base, 2×base, 4×base, … capped at max.
+ * `attempt` is the number of attempts made so far (1 after the first failure).
+ */
+export function getRetryDelayMs(attempt: number, baseSeconds: number, maxSeconds: number): number {
+  const exponent = Math.max(0, attempt - 1);
+  const seconds = Math.min(baseSeconds * 2 ** exponent, maxSeconds);
+  return seconds * 1000;
+}
@@ -0,0 +1,59 @@
+/**
+ * Date helpers shared by the DB layer and schedulers.
+ */
+
+/**
+ * Format a Date the way SQLite's datetime('now') does: "YYYY-MM-DD HH:MM:SS" in UTC.
+ * Values in this format compare correctly against datetime() in queries.
+ */
+export function toSqliteDatetime(date: Date): string {
+  return date.toISOString().replace("T", " ").slice(0, 19);
+}
+
+/**
+ * Parse a datetime stored by SQLite ("YYYY-MM-DD HH:MM:SS", UTC) back into a Date.
+ * ISO 8601 strings with an explicit offset are accepted as-is.
+ */
+export function fromSqliteDatetime(value: string): Date {
+  const iso = value.includes("T") ? value : value.replace(" ", "T");
+  return new Date(/(Z|[+-]\d{2}:?\d{2})$/.test(iso) ? iso : `${iso}Z`);
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parse a short duration like "90s", "30m", "12h", "7d" or "2w" into milliseconds.
+ * Throws if the string isn't a positive number followed by one of s/m/h/d/w.
+ */
+export function parseDuration(value: string): number {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([smhdw])$/i);
+  if (!match) {
+    throw new Error(`Invalid duration "${value}" (expected e.g. 30m, 12h, 7d, 2w)`);
+  }
+  return Number(match[1]) * DURATION_UNITS[match[2]!.toLowerCase()]!;
+}
+
+/**
+ * Resolve a --since style argument: either a duration back from now ("7d")
+ * or a date/datetime ("2025-03-01"). A bare date means local midnight, the
+ * same day boundary `fryler cost --by day` groups by. Throws on anything else.
+ */
+export function parseSince(value: string, now: Date = new Date()): Date {
+  if (/^\d+(?:\.\d+)?\s*[smhdw]$/i.test(value.trim())) {
+    return new Date(now.getTime() - parseDuration(value));
+  }
+  // new Date("2025-03-01") would be UTC midnight
+  const day = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim());
+  const date = day ? new Date(Number(day[1]), Number(day[2]) - 1, Number(day[3])) : new Date(value);
+  // Out-of-range parts roll over ("2025-02-30" is March 2nd), so reject them
+  if (isNaN(date.getTime()) || (day && date.getDate() !== Number(day[3]))) {
+    throw new Error(`Invalid --since value "${value}" (expected a duration like 7d or a date)`);
+  }
+  return date;
+}
@@ -0,0 +1,76 @@
+import { describe, expect, test, beforeAll, afterAll } from "bun:test";
+import { join } from "path";
+import { tmpdir } from "os";
+import { mkdtempSync, readdirSync, rmSync } from "fs";
+import { getDb, closeDb, _setDbPath } from "@/db/index.ts";
+import { recordRun } from "@/db/runs.ts";
+import { getDefaultConfig } from "@/config/index.ts";
+import { _setOutboxDir } from "@/outbox/index.ts";
+import {
+  getSpendToday,
+  isDailyBudgetExhausted,
+  _resetBudgetNotification,
+} from "@/daemon/budget.ts";
+
+const testDir = mkdtempSync(join(tmpdir(), "fryler-budget-test-"));
+const outboxDir = join(testDir, "outbox");
+
+beforeAll(() => {
+  _setDbPath(join(testDir, "fryler.db"));
+  _setOutboxDir(outboxDir);
+  getDb();
+});
+
+afterAll(() => {
+  closeDb();
+  _setDbPath(null);
+  _setOutboxDir(null);
+  rmSync(testDir, { recursive: true, force: true });
+});
+
+function outboxFiles(): string[] {
+  try {
+    return readdirSync(outboxDir).filter((f) => f.endsWith(".json"));
+  } catch {
+    return [];
+  }
+}
+
+describe("daily budget", () => {
+  test("only today's spend counts", () => {
+    const old = recordRun({ source: "heartbeat", cost_usd: 5 });
+    getDb()
+      .prepare("UPDATE claude_runs SET created_at = datetime('now', '-2 days') WHERE id = ?")
+      .run(old.id);
+    recordRun({ source: "heartbeat", cost_usd: 0.75 });
+    recordRun({ source: "chat", cost_usd: 0.25 });
+
+    expect(getSpendToday()).toBeCloseTo(1);
+  });
+
+  test("a budget of 0 means no limit", () => {
+    const config = { ...getDefaultConfig(), daily_budget_usd: 0 };
+    expect(isDailyBudgetExhausted(config)).toBe(false);
+  });
+
+  test("spend under the budget leaves the heartbeat running", () => {
+    const config = { ...getDefaultConfig(), daily_budget_usd: 2 };
+    expect(isDailyBudgetExhausted(config)).toBe(false);
+    expect(outboxFiles()).toHaveLength(0);
+  });
+
+  test("reaching the budget stops new tasks and notifies once a day", async () => {
+    _resetBudgetNotification();
+    const config = { ...getDefaultConfig(), daily_budget_usd: 1 };
+
+    expect(isDailyBudgetExhausted(config)).toBe(true);
+    expect(isDailyBudgetExhausted(config)).toBe(true);
+
+    await Bun.sleep(50); // notification is queued without blocking the heartbeat
+    const files = outboxFiles();
+    expect(files).toHaveLength(1);
+    const action = JSON.parse(await Bun.file(join(outboxDir, files[0]!)).text());
+    expect(action.type).toBe("say");
+    expect(action.text).toContain("daily budget");
+  });
+});
@@ -1,5 +1,31 @@
-import { describe, expect, test } from "bun:test";
-import { buildClaudeEnv, buildArgs, parseClaudeOutput } from "@/claude/client.ts";
+import { describe, expect, test, beforeAll, afterAll } from "bun:test";
+import { join } from "path";
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import {
+  buildClaudeEnv,
+  buildArgs,
+  parseClaudeOutput,
+  summarizeToolUse,
+  ask,
+  askStreaming,
+} from "@/claude/client.ts";
+import { closeDb, _setDbPath } from "@/db/index.ts";
+import { getCostReport } from "@/db/runs.ts";
+import { createMemory, setMemoryPinned } from "@/db/memories.ts";
+
+// Identity context and the cost ledger both read the DB
+const testDir = mkdtempSync(join(tmpdir(), "fryler-claude-test-"));
+
+beforeAll(() => {
+  _setDbPath(join(testDir, "fryler.db"));
+});
+
+afterAll(() => {
+  closeDb();
+  _setDbPath(null);
+  rmSync(testDir, { recursive: true, force: true });
+});
 
 describe("buildClaudeEnv", () => {
   test("strips CLAUDECODE from the environment", () => {
@@ -85,6 +111,24 @@ describe("buildArgs", () => {
     expect(args[idx + 1]).toBe("abc-123");
   });
 
+  test("resumes a specific session with --resume", async () => {
+    const args = await buildArgs("test", "json", {
+      resumeSessionId: "abc-123",
+      sessionId: "ignored",
+    });
+    const idx = args.indexOf("--resume");
+    expect(args[idx + 1]).toBe("abc-123");
+    expect(args).not.toContain("--session-id");
+    expect(args).not.toContain("--continue");
+    expect(args).not.toContain("--fork-session");
+  });
+
+  test("forks a resumed session with --fork-session", async () => {
+    const args = await buildArgs("test", "json", { resumeSessionId: "abc-123", forkSession: true });
+    expect(args[args.indexOf("--resume") + 1]).toBe("abc-123");
+    expect(args).toContain("--fork-session");
+  });
+
   test("includes --max-turns with default from config", async () => {
     const args = await buildArgs("test", "json");
     const idx = args.indexOf("--max-turns");
@@ -124,6 +168,55 @@ describe("buildArgs", () => {
     const args = await buildArgs("test", "json");
     expect(args).not.toContain("--no-session-persistence");
   });
+
+  test("includes --max-budget-usd when a budget is set", async () => {
+    const args = await buildArgs("test", "json", { maxBudgetUsd: 0.5 });
+    const idx = args.indexOf("--max-budget-usd");
+    expect(idx).toBeGreaterThan(-1);
+    expect(args[idx + 1]).toBe("0.5");
+  });
+
+  test("omits --max-budget-usd by default", async () => {
+    const args = await buildArgs("test", "json");
+    expect(args).not.toContain("--max-budget-usd");
+  });
+});
+
+describe("memory injection", () => {
+  test("injects memories relevant to the prompt and pinned ones", async () => {
+    createMemory("preference", "Fry takes espresso with no sugar");
+    createMemory("project", "The garden shed roof needs new shingles");
+    const pinned = createMemory("person", "Fry's sister is called Leela");
+    setMemoryPinned(pinned.id, true);
+
+    const args = await buildArgs("make me an espresso", "json");
+    const systemPrompt = args[args.indexOf("--system-prompt") + 1]!;
+    expect(systemPrompt).toContain("espresso with no sugar");
+    expect(systemPrompt).toContain("sister is called Leela");
+    expect(systemPrompt).not.toContain("shingles");
+  });
+});
+
+describe("summarizeToolUse", () => {
+  test("names the tool and its main input", () => {
+    expect(
+      summarizeToolUse({ type: "tool_use", name: "Bash", input: { command: "git  status\n" } }),
+    ).toBe("Bash: git status");
+    expect(summarizeToolUse({ type: "tool_use", name: "TodoWrite", input: { todos: [] } })).toBe(
+      "TodoWrite",
+    );
+    const long = summarizeToolUse({
+      type: "tool_use",
+      name: "Bash",
+      input: { command: "x".repeat(200) },
+    });
+    expect(long).toHaveLength("Bash: ".length + 120);
+    expect(long?.endsWith("...")).toBe(true);
+  });
+
+  test("ignores other content blocks", () => {
+    expect(summarizeToolUse({ type: "text", text: "hello" })).toBeNull();
+  });
 });
 
 describe("parseClaudeOutput", () => {
@@ -206,3 +299,85 @@ describe("parseClaudeOutput", () => {
     expect(resp.result).toBe("something broke");
   });
 });
+
+describe("ask process supervision", () => {
+  // A stand-in `claude` on PATH that never answers
+  const binDir = join(testDir, "bin");
+  const originalPath = process.env.PATH;
+
+  beforeAll(() => {
+    mkdirSync(binDir);
+    writeFileSync(join(binDir, "claude"), "#!/bin/sh\nsleep 30\n", { mode: 0o755 });
+    process.env.PATH = `${binDir}:${originalPath}`;
+  });
+
+  afterAll(() => {
+    process.env.PATH = originalPath;
+  });
+
+  test("kills claude when it runs past timeoutMs", async () => {
+    const started = Date.now();
+    await expect(ask("hang", { injectIdentity: false, timeoutMs: 200 })).rejects.toThrow(
+      "claude timed out",
+    );
+    expect(Date.now() - started).toBeLessThan(5000);
+  });
+
+  test("kills claude when the signal aborts", async () => {
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 200);
+    await expect(ask("hang", { injectIdentity: false, signal: controller.signal })).rejects.toThrow(
+      "claude was cancelled",
+    );
+  });
+
+  test("killed runs are recorded as errors in the cost ledger", () => {
+    const [row] = getCostReport("source");
+    expect(row?.key).toBe("cli");
+    expect(row?.runs).toBe(2);
+    expect(row?.errors).toBe(2);
+    expect(row?.cost_usd).toBe(0);
+  });
+});
+
+describe("cost ledger", () => {
+  const binDir = join(testDir, "ledger-bin");
+  const originalPath = process.env.PATH;
+
+  /** Put a stand-in `claude` on PATH that prints `lines` and exits with `code`. */
+  function fakeClaude(lines: object[], code = 0): void {
+    const output = lines.map((line) => `echo '${JSON.stringify(line)}'`).join("\n");
+    writeFileSync(join(binDir, "claude"), `#!/bin/sh\n${output}\nexit ${code}\n`, {
+      mode: 0o755,
+    });
+  }
+
+  const result = { type: "result", result: "done", session_id: "s1", total_cost_usd: 0.25 };
+
+  beforeAll(() => {
+    mkdirSync(binDir);
+    process.env.PATH = `${binDir}:${originalPath}`;
+  });
+
+  afterAll(() => {
+    process.env.PATH = originalPath;
+  });
+
+  test("a failed run still records the cost it reported", async () => {
+    fakeClaude([{ ...result, is_error: true }], 1);
+    await expect(ask("fail", { injectIdentity: false, source: "heartbeat" })).rejects.toThrow(
+      "claude exited with code 1",
+    );
+    const row = getCostReport("source").find((r) => r.key === "heartbeat");
+    expect(row).toMatchObject({ runs: 1, errors: 1, cost_usd: 0.25 });
+  });
+
+  test("a stream the consumer stops reading early is still recorded", async () => {
+    fakeClaude([result, { type: "system", subtype: "after" }]);
+    for await (const event of askStreaming("stop", { injectIdentity: false, source: "chat" })) {
+      if (event.type === "result") break;
+    }
+    const row = getCostReport("source").find((r) => r.key === "chat");
+    expect(row).toMatchObject({ runs: 1, errors: 0, cost_usd: 0.25 });
+  });
+});
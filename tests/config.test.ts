@@ -14,6 +14,20 @@ describe("getDefaultConfig", () => {
     expect(config.data_dir).toContain(".fryler/data");
     expect(config.claude_model).toBe("sonnet");
     expect(config.claude_max_turns).toBe(25);
+    expect(config.max_concurrent_tasks).toBe(3);
+    expect(config.task_priority_aging_hours).toBe(24);
+    expect(config.task_timeout_seconds).toBe(1800);
+    expect(config.daily_budget_usd).toBe(0);
+    expect(config.task_budget_usd).toBe(0);
+    expect(config.memory_token_budget).toBe(1500);
+    expect(config.memory_max_injected).toBe(15);
+    expect(config.memory_debug).toBe(false);
+    expect(config.memory_duplicate_similarity).toBe(0.85);
+    expect(config.memory_consolidation_schedule).toBe("0 4 * * 0");
+    expect(config.memory_consolidation_min_entries).toBe(10);
+    expect(config.task_max_attempts).toBe(3);
+    expect(config.task_retry_base_seconds).toBe(60);
+    expect(config.task_retry_max_seconds).toBe(3600);
   });
 });
 
@@ -131,4 +145,18 @@ describe("loadConfig", () => {
     expect(config.container_name).toBe("fryler-runtime");
     expect(config.claude_model).toBe("sonnet");
   });
+  test("invalid values of enum-like keys fall back to the defaults", async () => {
+    const configPath = join(tempDir, "config.toml");
+    await writeFile(configPath, `log_level = "loud"\norphaned_task_policy = "retry"\n`);
+
+    const config = await loadConfig(configPath);
+    expect(config.log_level).toBe("info");
+    expect(config.orphaned_task_policy).toBe("requeue");
+  });
+
+  test("valid orphaned_task_policy values are kept", async () => {
+    const configPath = join(tempDir, "config.toml");
+    await writeFile(configPath, `orphaned_task_policy = "interrupt"\n`);
+    expect((await loadConfig(configPath)).orphaned_task_policy).toBe("interrupt");
+  });
 });
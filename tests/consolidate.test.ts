@@ -0,0 +1,256 @@
+import { describe, expect, test, beforeEach, beforeAll, afterAll } from "bun:test";
+import { join } from "path";
+import { tmpdir } from "os";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { closeDb, getDb, _setDbPath } from "@/db/index.ts";
+import {
+  createMemory,
+  getMemory,
+  listMemories,
+  setMemoryPinned,
+  updateMemory,
+  type Memory,
+} from "@/db/memories.ts";
+import { createTask, getTask, getOpenHandlerTask } from "@/db/tasks.ts";
+import { appendMemory, readMemory, _setIdentityDir } from "@/memory/index.ts";
+import {
+  applyConsolidation,
+  formatConsolidationDiff,
+  parseConsolidationResponse,
+  planConsolidation,
+  CONSOLIDATION_SOURCE,
+} from "@/memory/consolidate.ts";
+import { ensureMaintenanceTasks } from "@/daemon/maintenance.ts";
+import { triggerHeartbeat } from "@/daemon/heartbeat.ts";
+import { CONSOLIDATE_MEMORIES } from "@/tasks/handlers.ts";
+import { getDefaultConfig } from "@/config/index.ts";
+
+const testDir = mkdtempSync(join(tmpdir(), "fryler-consolidate-test-"));
+const memoryPath = join(testDir, "MEMORY.md");
+const binDir = join(testDir, "bin");
+const replyPath = join(testDir, "reply.json");
+const originalPath = process.env.PATH;
+
+beforeAll(() => {
+  _setDbPath(join(testDir, "fryler.db"));
+  _setIdentityDir(testDir);
+
+  // A stand-in `claude` that prints whatever reply the test set up
+  mkdirSync(binDir);
+  writeFileSync(join(binDir, "claude"), `#!/bin/sh\ncat "${replyPath}"\n`, { mode: 0o755 });
+  process.env.PATH = `${binDir}:${originalPath}`;
+});
+
+beforeEach(async () => {
+  getDb().exec("DELETE FROM memories; DELETE FROM tasks");
+  await Bun.write(memoryPath, "# Fryler — Memory\n\n## Preferences\n\n## People\n");
+});
+
+afterAll(() => {
+  process.env.PATH = originalPath;
+  closeDb();
+  _setDbPath(null);
+  _setIdentityDir(null);
+  rmSync(testDir, { recursive: true, force: true });
+});
+
+/** Make the fake claude propose these merges. */
+function reply(merges: { ids: number[]; content: string }[]): void {
+  const result = JSON.stringify({ merges });
+  writeFileSync(replyPath, JSON.stringify({ type: "result", is_error: false, result }));
+}
+
+async function remembered(category: string, content: string): Promise<Memory> {
+  const memory = createMemory(category, content, "test");
+  await appendMemory(memory);
+  return getMemory(memory.id)!;
+}
+
+async function coffeeMemories(): Promise<Memory[]> {
+  return [
+    await remembered("preference", "Drinks coffee in the morning"),
+    await remembered("preference", "Takes coffee black"),
+    await remembered("preference", "Likes the window seat"),
+  ];
+}
+
+describe("parseConsolidationResponse", () => {
+  const memories = [1, 2, 3].map(
+    (id) => ({ id, category: "preference", content: `memory ${id}` }) as Memory,
+  );
+
+  test("reads merges from JSON, even when wrapped in prose", () => {
+    const merges = parseConsolidationResponse(
+      'Here you go:\n{"merges": [{"ids": [2, 1], "content": " Merged "}]}',
+      "preference",
+      memories,
+    );
+    expect(merges).toEqual([
+      { category: "preference", sources: [memories[0]!, memories[1]!], content: "Merged" },
+    ]);
+  });
+
+  test("drops proposals with unknown or reused ids, one id, or no content", () => {
+    const merges = parseConsolidationResponse(
+      JSON.stringify({
+        merges: [
+          { ids: [1, 9], content: "unknown id" },
+          { ids: [1], content: "only one" },
+          { ids: [1, 2], content: "" },
+          { ids: [1, 2], content: "kept" },
+          { ids: [2, 3], content: "reuses 2" },
+        ],
+      }),
+      "preference",
+      memories,
+    );
+    expect(merges.map((m) => m.content)).toEqual(["kept"]);
+  });
+
+  test("a reply without a merges array is an error", () => {
+    expect(() => parseConsolidationResponse("no json here", "preference", memories)).toThrow();
+    expect(() => parseConsolidationResponse('{"ok": true}', "preference", memories)).toThrow(
+      "merges",
+    );
+  });
+});
+
+describe("memory consolidation", () => {
+  test("planning proposes merges without changing anything", async () => {
+    const [morning, black] = await coffeeMemories();
+    reply([{ ids: [morning!.id, black!.id], content: "Drinks black coffee in the morning" }]);
+    const before = await readMemory();
+
+    const plan = await planConsolidation({ minEntries: 2 });
+    expect(plan.categories).toEqual(["preference"]);
+    expect(plan.merges.map((m) => m.sources.map((s) => s.id))).toEqual([[morning!.id, black!.id]]);
+    expect(await readMemory()).toBe(before);
+    expect(listMemories()).toHaveLength(3);
+
+    expect(formatConsolidationDiff(plan.merges)).toBe(
+      [
+        `@@ Preferences: merge #${morning!.id}, #${black!.id} @@`,
+        "-- Drinks coffee in the morning",
+        "-- Takes coffee black",
+        "+- Drinks black coffee in the morning",
+      ].join("\n"),
+    );
+  });
+
+  test("a dry run sees hand edits to MEMORY.md without syncing them", async () => {
+    const [morning, black, seat] = await coffeeMemories();
+    const edited = (await readMemory())
+      .replace("Takes coffee black", "Takes coffee black, no sugar")
+      .replace(`- Likes the window seat <!-- mem:${seat!.id} -->\n`, "");
+    await Bun.write(memoryPath, edited);
+    const before = listMemories(undefined, { includeInactive: true });
+    reply([{ ids: [morning!.id, black!.id], content: "Drinks black coffee in the morning" }]);
+
+    const plan = await planConsolidation({ minEntries: 2, dryRun: true });
+    expect(plan.merges.map((m) => m.sources.map((s) => s.content))).toEqual([
+      ["Drinks coffee in the morning", "Takes coffee black, no sugar"],
+    ]);
+    expect(await readMemory()).toBe(edited);
+    expect(listMemories(undefined, { includeInactive: true })).toEqual(before);
+  });
+
+  test("categories below minEntries are not sent to claude", async () => {
+    await coffeeMemories();
+    reply([]);
+    const plan = await planConsolidation({ minEntries: 4 });
+    expect(plan).toEqual({ categories: [], merges: [] });
+  });
+
+  test("applying archives the originals and rewrites MEMORY.md", async () => {
+    const [morning, black, seat] = await coffeeMemories();
+    reply([{ ids: [morning!.id, black!.id], content: "Drinks black coffee in the morning" }]);
+
+    const applied = await applyConsolidation(await planConsolidation({ minEntries: 2 }));
+    expect(applied).toHaveLength(1);
+    const summary = applied[0]!.summary;
+    expect(summary.source).toBe(CONSOLIDATION_SOURCE);
+
+    expect(getMemory(morning!.id)?.superseded_by).toBe(summary.id);
+    expect(getMemory(black!.id)?.superseded_by).toBe(summary.id);
+    expect(listMemories().map((m) => m.id)).toEqual([seat!.id, summary.id]);
+
+    const text = await readMemory();
+    expect(text).toContain(
+      `## Preferences\n\n- Drinks black coffee in the morning <!-- mem:${summary.id} -->\n` +
+        `- Likes the window seat <!-- mem:${seat!.id} -->\n`,
+    );
+    expect(text).not.toContain("Takes coffee black");
+  });
+
+  test("a merge whose memories changed after planning is skipped", async () => {
+    const [morning, black] = await coffeeMemories();
+    reply([{ ids: [morning!.id, black!.id], content: "Drinks black coffee in the morning" }]);
+    const plan = await planConsolidation({ minEntries: 2 });
+
+    updateMemory(black!.id, { content: "Takes coffee with oat milk" });
+    expect(await applyConsolidation(plan)).toEqual([]);
+    expect(listMemories()).toHaveLength(3);
+  });
+
+  test("pinned memories are never merged", async () => {
+    const [morning, black, seat] = await coffeeMemories();
+    setMemoryPinned(black!.id, true);
+    reply([{ ids: [morning!.id, seat!.id], content: "Morning coffee by the window" }]);
+
+    const plan = await planConsolidation({ minEntries: 2 });
+    expect(plan.merges).toHaveLength(1);
+    // Pinning after planning also keeps the merge from being applied
+    setMemoryPinned(seat!.id, true);
+    expect(await applyConsolidation(plan)).toEqual([]);
+    expect(getMemory(black!.id)?.superseded_by).toBeNull();
+    expect(listMemories()).toHaveLength(3);
+  });
+
+  test("planning does not offer pinned memories to claude", async () => {
+    const [morning, black] = await coffeeMemories();
+    setMemoryPinned(morning!.id, true);
+    setMemoryPinned(black!.id, true);
+    reply([{ ids: [morning!.id, black!.id], content: "Drinks black coffee in the morning" }]);
+
+    const plan = await planConsolidation({ minEntries: 2 });
+    expect(plan).toEqual({ categories: [], merges: [] });
+  });
+});
+
+describe("consolidation task", () => {
+  test("maintenance scheduling follows the config", () => {
+    const config = getDefaultConfig();
+    const [task] = ensureMaintenanceTasks(config);
+    expect(task?.handler).toBe(CONSOLIDATE_MEMORIES);
+    expect(task?.recurrence).toBe("0 4 * * 0");
+
+    // Running it again doesn't add a second one
+    expect(ensureMaintenanceTasks(config).map((t) => t.id)).toEqual([task!.id]);
+
+    const [moved] = ensureMaintenanceTasks({
+      ...config,
+      memory_consolidation_schedule: "0 3 * * *",
+    });
+    expect(moved?.id).toBe(task!.id);
+    expect(moved?.recurrence).toBe("0 3 * * *");
+
+    expect(ensureMaintenanceTasks({ ...config, memory_consolidation_schedule: "" })).toEqual([]);
+    expect(getTask(task!.id)?.status).toBe("cancelled");
+    expect(getOpenHandlerTask(CONSOLIDATE_MEMORIES)).toBeNull();
+  });
+
+  test("the heartbeat runs a handler task with its built-in handler", async () => {
+    // Three memories is below the default minimum, so nothing is sent to claude
+    const [morning] = await coffeeMemories();
+    const task = createTask({ title: "Consolidate memories", handler: CONSOLIDATE_MEMORIES });
+    await triggerHeartbeat();
+    expect(getTask(task.id)?.status).toBe("completed");
+    expect(getTask(task.id)?.result).toBe("No category has enough memories to consolidate.");
+    expect(getMemory(morning!.id)?.superseded_by).toBeNull();
+
+    const unknown = createTask({ title: "Mystery", handler: "no-such-handler" });
+    await triggerHeartbeat();
+    expect(getTask(unknown.id)?.status).toBe("failed");
+    expect(getTask(unknown.id)?.result).toBe('Unknown task handler "no-such-handler"');
+  });
+});
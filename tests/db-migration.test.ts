@@ -0,0 +1,104 @@
+import { describe, expect, test, afterAll } from "bun:test";
+import { Database } from "bun:sqlite";
+import { join } from "path";
+import { unlinkSync } from "fs";
+import { getDb, closeDb, _setDbPath, TASK_STATUSES } from "@/db/index.ts";
+import { getTask, updateTaskStatus } from "@/db/tasks.ts";
+import { createMemory, searchMemories } from "@/db/memories.ts";
+import { getLatestSession, getSession } from "@/db/sessions.ts";
+
+const TEST_DB_PATH = join("/tmp", `fryler-migration-test-${Date.now()}.db`);
+
+afterAll(() => {
+  closeDb();
+  try {
+    unlinkSync(TEST_DB_PATH);
+    unlinkSync(TEST_DB_PATH + "-wal");
+    unlinkSync(TEST_DB_PATH + "-shm");
+  } catch {
+    // ignore cleanup errors
+  }
+  _setDbPath(null);
+});
+
+describe("DB migrations", () => {
+  test("upgrades a database created with the original tasks schema", () => {
+    const legacy = new Database(TEST_DB_PATH);
+    legacy.exec(`
+      CREATE TABLE tasks (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        title TEXT NOT NULL,
+        description TEXT NOT NULL DEFAULT '',
+        status TEXT NOT NULL DEFAULT 'pending' CHECK(status IN ('pending','active','completed','failed')),
+        priority INTEGER NOT NULL DEFAULT 3 CHECK(priority BETWEEN 1 AND 5),
+        scheduled_at TEXT,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+        completed_at TEXT,
+        result TEXT
+      );
+      INSERT INTO tasks (title, status, result) VALUES ('Old task', 'completed', 'kept');
+      CREATE TABLE memories (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        category TEXT NOT NULL,
+        content TEXT NOT NULL,
+        source TEXT,
+        created_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+      INSERT INTO memories (category, content) VALUES ('pref', 'Fry likes dark roast coffee');
+      CREATE TABLE sessions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        claude_session_id TEXT NOT NULL UNIQUE,
+        title TEXT,
+        started_at TEXT NOT NULL DEFAULT (datetime('now')),
+        last_active_at TEXT NOT NULL DEFAULT (datetime('now')),
+        message_count INTEGER NOT NULL DEFAULT 0
+      );
+      INSERT INTO sessions (claude_session_id, title) VALUES
+        ('old-cli', '[cli] what is on my calendar'),
+        ('old-chat', '[chat] plan the trip'),
+        ('old-voice', '[voice] good morning'),
+        ('old-other', 'Renamed by hand');
+    `);
+    legacy.close();
+
+    _setDbPath(TEST_DB_PATH);
+    const db = getDb();
+
+    const old = getTask(1)!;
+    expect(old.title).toBe("Old task");
+    expect(old.status).toBe("completed");
+    expect(old.result).toBe("kept");
+    expect(old.cwd).toBeNull();
+    expect(old.attempt_count).toBe(0);
+    expect(old.handler).toBeNull();
+
+    const { sql } = db
+      .prepare("SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'tasks'")
+      .get() as { sql: string };
+    for (const status of TASK_STATUSES) {
+      expect(sql).toContain(`'${status}'`);
+    }
+
+    updateTaskStatus(1, "interrupted");
+    expect(getTask(1)!.status).toBe("interrupted");
+    updateTaskStatus(1, "cancelled");
+    expect(getTask(1)!.status).toBe("cancelled");
+  });
+
+  test("moves session kinds out of title prefixes", () => {
+    expect(getSession("old-cli")).toMatchObject({ kind: "cli", title: "what is on my calendar" });
+    expect(getSession("old-chat")).toMatchObject({ kind: "chat", title: "plan the trip" });
+    expect(getSession("old-voice")).toMatchObject({ kind: "voice", title: "good morning" });
+    expect(getSession("old-other")).toMatchObject({ kind: null, title: "Renamed by hand" });
+    expect(getLatestSession("chat")?.claude_session_id).toBe("old-chat");
+  });
+
+  test("backfills the memory search index from existing rows", () => {
+    expect(searchMemories("coffee roast").map((m) => m.content)).toEqual([
+      "Fry likes dark roast coffee",
+    ]);
+    createMemory("pref", "Fry drinks coffee black");
+    expect(searchMemories("coffee")).toHaveLength(2);
+  });
+});
@@ -8,10 +8,50 @@ import {
   listTasks,
   updateTaskStatus,
   getDueTasks,
+  updateTask,
   cancelTask,
+  requestTaskCancel,
+  getCancelRequestedTaskIds,
+  setTaskPaused,
+  stopTaskRecurrence,
+  spawnNextOccurrence,
+  addTaskDependency,
+  getTaskDependencies,
+  getTaskDependents,
+  failDependents,
+  claimNextTask,
+  scheduleTaskRetry,
+  retryTask,
 } from "@/db/tasks.ts";
-import { createMemory, listMemories, searchMemories } from "@/db/memories.ts";
-import { createSession, getSession, updateSession, listSessions } from "@/db/sessions.ts";
+import {
+  createMemory,
+  countMemories,
+  forgetMemory,
+  getMemory,
+  listMemories,
+  restoreMemory,
+  searchMemories,
+  setMemoryPinned,
+  updateMemory,
+} from "@/db/memories.ts";
+import {
+  createSession,
+  getSession,
+  updateSession,
+  listSessions,
+  listSessionForks,
+  getLatestSession,
+  findSession,
+  renameSession,
+  addSessionTag,
+  removeSessionTag,
+  getSessionTags,
+  setSessionArchived,
+  deleteSession,
+  pruneSessions,
+  isSessionKind,
+} from "@/db/sessions.ts";
+import { listMessages, recordExchange } from "@/db/messages.ts";
 
 const TEST_DB_PATH = join("/tmp", `fryler-test-${Date.now()}.db`);
 
@@ -31,6 +71,11 @@ afterAll(() => {
   _setDbPath(null);
 });
 
+// Earlier tests leave pending tasks behind; take them out of the queue
+function clearPending(): void {
+  getDb().exec("UPDATE tasks SET status = 'completed' WHERE status = 'pending'");
+}
+
 describe("DB init", () => {
   test("creates all tables", () => {
     const db = getDb();
@@ -41,6 +86,7 @@ describe("DB init", () => {
     expect(names).toContain("tasks");
     expect(names).toContain("memories");
     expect(names).toContain("sessions");
+    expect(names).toContain("messages");
   });
 });
 
@@ -115,12 +161,50 @@ describe("Tasks", () => {
     expect(dueIds).not.toContain(future.id);
   });
 
-  test("cancelTask sets pending to failed", () => {
+  test("updateTask changes only the given fields", () => {
+    const task = createTask({ title: "Draft", description: "first", cwd: "/tmp" });
+    const updated = updateTask(task.id, {
+      title: "Final",
+      priority: 1,
+      scheduled_at: "2099-01-01 00:00:00",
+    })!;
+    expect(updated.title).toBe("Final");
+    expect(updated.priority).toBe(1);
+    expect(updated.scheduled_at).toBe("2099-01-01 00:00:00");
+    expect(updated.description).toBe("first");
+    expect(updated.cwd).toBe("/tmp");
+  });
+
+  test("updateTask can clear nullable fields", () => {
+    const task = createTask({
+      title: "Clear me",
+      cwd: "/tmp",
+      scheduled_at: "2099-01-01 00:00:00",
+    });
+    const updated = updateTask(task.id, { cwd: null, scheduled_at: null })!;
+    expect(updated.cwd).toBeNull();
+    expect(updated.scheduled_at).toBeNull();
+  });
+
+  test("updateTask only edits pending tasks", () => {
+    const task = createTask({ title: "Running" });
+    updateTaskStatus(task.id, "active");
+    expect(updateTask(task.id, { title: "Too late" })).toBeNull();
+    expect(getTask(task.id)!.title).toBe("Running");
+    expect(updateTask(999999, { title: "Missing" })).toBeNull();
+  });
+
+  test("updateTask rejects an out-of-range priority", () => {
+    const task = createTask({ title: "Bad priority" });
+    expect(() => updateTask(task.id, { priority: 9 })).toThrow();
+  });
+
+  test("cancelTask sets pending to cancelled", () => {
     const task = createTask({ title: "To cancel" });
     expect(cancelTask(task.id)).toBe(true);
 
     const cancelled = getTask(task.id)!;
-    expect(cancelled.status).toBe("failed");
+    expect(cancelled.status).toBe("cancelled");
     expect(cancelled.completed_at).toBeTruthy();
   });
 
@@ -130,6 +214,46 @@ describe("Tasks", () => {
     expect(cancelTask(task.id)).toBe(false);
   });
 
+  test("requestTaskCancel cancels pending tasks and flags active ones", () => {
+    const pending = createTask({ title: "Not started" });
+    expect(requestTaskCancel(pending.id)).toBe("cancelled");
+
+    const running = createTask({ title: "Running" });
+    updateTaskStatus(running.id, "active");
+    expect(requestTaskCancel(running.id)).toBe("requested");
+    expect(getTask(running.id)!.status).toBe("active");
+    expect(getCancelRequestedTaskIds()).toContain(running.id);
+
+    updateTaskStatus(running.id, "cancelled", "Cancelled while running");
+    const row = getTask(running.id)!;
+    expect(row.cancel_requested_at).toBeNull();
+    expect(row.completed_at).toBeTruthy();
+    expect(getCancelRequestedTaskIds()).not.toContain(running.id);
+
+    expect(requestTaskCancel(running.id)).toBeNull();
+    expect(requestTaskCancel(999999)).toBeNull();
+  });
+
+  test("cancelling a task fails its dependents", () => {
+    const first = createTask({ title: "Upstream" });
+    const second = createTask({ title: "Downstream" });
+    addTaskDependency(second.id, first.id);
+    cancelTask(first.id);
+    expect(getTask(second.id)!.status).toBe("failed");
+
+    const late = createTask({ title: "Added later" });
+    addTaskDependency(late.id, first.id);
+    expect(getTask(late.id)!.status).toBe("failed");
+  });
+
+  test("timeout_seconds is stored and carried to the next occurrence", () => {
+    const task = createTask({ title: "Slow", timeout_seconds: 60, recurrence: "@daily" });
+    expect(task.timeout_seconds).toBe(60);
+    expect(createTask({ title: "Default timeout" }).timeout_seconds).toBeNull();
+    updateTaskStatus(task.id, "completed");
+    expect(spawnNextOccurrence(task.id)!.timeout_seconds).toBe(60);
+  });
+
   test("create with cwd", () => {
     const task = createTask({
       title: "Repo task",
@@ -147,6 +271,355 @@ describe("Tasks", () => {
   });
 });
 
+describe("Recurring tasks", () => {
+  test("recurring task without scheduled_at is scheduled for its next occurrence", () => {
+    const task = createTask({ title: "Daily check", recurrence: "0 8 * * *" });
+    expect(task.recurrence).toBe("0 8 * * *");
+    expect(task.scheduled_at).toMatch(/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:00$/);
+    expect(getDueTasks().some((t) => t.id === task.id)).toBe(false);
+  });
+
+  test("explicit scheduled_at wins over the recurrence", () => {
+    const task = createTask({
+      title: "Starts now",
+      recurrence: "@daily",
+      scheduled_at: "2000-01-01 00:00:00",
+    });
+    expect(task.scheduled_at).toBe("2000-01-01 00:00:00");
+  });
+
+  test("invalid recurrence throws", () => {
+    expect(() => createTask({ title: "Bad", recurrence: "sometimes" })).toThrow();
+  });
+
+  test("spawnNextOccurrence copies the task with a future schedule", () => {
+    const task = createTask({
+      title: "Glucose",
+      description: "Check glucose",
+      priority: 2,
+      recurrence: "*/5 * * * *",
+      scheduled_at: "2000-01-01 00:00:00",
+      cwd: "/tmp",
+    });
+    updateTaskStatus(task.id, "completed", "ok");
+
+    const next = spawnNextOccurrence(task.id)!;
+    expect(next.id).not.toBe(task.id);
+    expect(next.status).toBe("pending");
+    expect(next.title).toBe("Glucose");
+    expect(next.description).toBe("Check glucose");
+    expect(next.priority).toBe(2);
+    expect(next.cwd).toBe("/tmp");
+    expect(next.recurrence).toBe("*/5 * * * *");
+    expect(new Date(next.scheduled_at!.replace(" ", "T") + "Z").getTime()).toBeGreaterThan(
+      Date.now(),
+    );
+  });
+
+  test("spawnNextOccurrence returns null for non-recurring tasks", () => {
+    const task = createTask({ title: "One-shot" });
+    expect(spawnNextOccurrence(task.id)).toBeNull();
+  });
+
+  test("paused tasks are not due until resumed", () => {
+    const task = createTask({ title: "Pausable" });
+    expect(setTaskPaused(task.id, true)).toBe(true);
+    expect(getTask(task.id)!.paused).toBe(1);
+    expect(getDueTasks().some((t) => t.id === task.id)).toBe(false);
+
+    expect(setTaskPaused(task.id, false)).toBe(true);
+    expect(getDueTasks().some((t) => t.id === task.id)).toBe(true);
+  });
+
+  test("stopTaskRecurrence ends the series", () => {
+    const task = createTask({ title: "Series", recurrence: "@hourly" });
+    expect(stopTaskRecurrence(task.id)?.id).toBe(task.id);
+    expect(getTask(task.id)!.recurrence).toBeNull();
+    expect(spawnNextOccurrence(task.id)).toBeNull();
+    expect(stopTaskRecurrence(task.id)).toBeNull();
+  });
+
+  test("the recurrence moves to each new occurrence", () => {
+    const first = createTask({ title: "Moving series", recurrence: "@hourly" });
+    updateTaskStatus(first.id, "completed", "ok");
+    const second = spawnNextOccurrence(first.id)!;
+    updateTaskStatus(second.id, "completed", "ok");
+    const third = spawnNextOccurrence(second.id)!;
+
+    expect(getTask(first.id)!.recurrence).toBeNull();
+    expect(getTask(second.id)!.recurrence).toBeNull();
+    expect(third.recurrence).toBe("@hourly");
+    expect([second.series_id, third.series_id]).toEqual([first.id, first.id]);
+    expect(spawnNextOccurrence(first.id)).toBeNull();
+  });
+
+  test("retrying a failed occurrence does not fork the series", () => {
+    const first = createTask({ title: "Retried series", recurrence: "@hourly" });
+    updateTaskStatus(first.id, "failed", "boom");
+    const second = spawnNextOccurrence(first.id)!;
+
+    expect(retryTask(first.id)).toBe(true);
+    updateTaskStatus(first.id, "completed", "ok");
+    expect(spawnNextOccurrence(first.id)).toBeNull();
+    expect(getTask(second.id)!.recurrence).toBe("@hourly");
+  });
+
+  test("spawnNextOccurrence leaves a series alone when another occurrence is open", () => {
+    const first = createTask({ title: "Doubled series", recurrence: "@hourly" });
+    updateTaskStatus(first.id, "completed", "ok");
+    const second = spawnNextOccurrence(first.id)!;
+    // A row that still carries the recurrence, as rows did before it moved forward
+    getDb()
+      .prepare("UPDATE tasks SET recurrence = '@hourly' WHERE id = $id")
+      .run({ $id: first.id });
+
+    expect(spawnNextOccurrence(first.id)).toBeNull();
+    expect(getTask(first.id)!.recurrence).toBeNull();
+    expect(getTask(second.id)!.recurrence).toBe("@hourly");
+  });
+
+  test("stopTaskRecurrence finds the open occurrence from any task in the series", () => {
+    const first = createTask({ title: "Stop from the start", recurrence: "@hourly" });
+    updateTaskStatus(first.id, "completed", "ok");
+    const second = spawnNextOccurrence(first.id)!;
+
+    expect(stopTaskRecurrence(first.id)?.id).toBe(second.id);
+    expect(getTask(second.id)!.recurrence).toBeNull();
+    expect(stopTaskRecurrence(second.id)).toBeNull();
+  });
+});
+
+describe("Task dependencies", () => {
+  test("dependent is not due until its dependency completes", () => {
+    const clone = createTask({ title: "Clone repo" });
+    const test = createTask({ title: "Run tests" });
+    addTaskDependency(test.id, clone.id);
+
+    let dueIds = getDueTasks().map((t) => t.id);
+    expect(dueIds).toContain(clone.id);
+    expect(dueIds).not.toContain(test.id);
+
+    updateTaskStatus(clone.id, "completed", "cloned");
+    dueIds = getDueTasks().map((t) => t.id);
+    expect(dueIds).toContain(test.id);
+  });
+
+  test("lists dependencies and dependents", () => {
+    const a = createTask({ title: "A" });
+    const b = createTask({ title: "B" });
+    const c = createTask({ title: "C" });
+    addTaskDependency(c.id, a.id);
+    addTaskDependency(c.id, b.id);
+
+    expect(getTaskDependencies(c.id).map((t) => t.id)).toEqual([a.id, b.id]);
+    expect(getTaskDependents(a.id).map((t) => t.id)).toEqual([c.id]);
+  });
+
+  test("rejects self-dependencies and cycles", () => {
+    const a = createTask({ title: "A" });
+    const b = createTask({ title: "B" });
+    addTaskDependency(b.id, a.id);
+
+    expect(() => addTaskDependency(a.id, a.id)).toThrow("itself");
+    expect(() => addTaskDependency(a.id, b.id)).toThrow("cycle");
+    expect(() => addTaskDependency(a.id, 99999)).toThrow("not found");
+  });
+
+  test("failDependents cascades through the chain with a reason", () => {
+    const clone = createTask({ title: "Clone" });
+    const test = createTask({ title: "Test" });
+    const pr = createTask({ title: "Open PR" });
+    addTaskDependency(test.id, clone.id);
+    addTaskDependency(pr.id, test.id);
+
+    updateTaskStatus(clone.id, "failed", "network down");
+    expect(failDependents(clone.id)).toEqual([test.id, pr.id]);
+
+    expect(getTask(test.id)!.status).toBe("failed");
+    expect(getTask(test.id)!.result).toBe(`Dependency #${clone.id} failed`);
+    expect(getTask(pr.id)!.result).toBe(`Dependency #${test.id} failed`);
+  });
+
+  test("cancelling a task fails its dependents", () => {
+    const first = createTask({ title: "First" });
+    const second = createTask({ title: "Second" });
+    addTaskDependency(second.id, first.id);
+
+    cancelTask(first.id);
+    expect(getTask(second.id)!.status).toBe("failed");
+  });
+
+  test("depending on an already failed task fails immediately", () => {
+    const broken = createTask({ title: "Broken" });
+    updateTaskStatus(broken.id, "failed", "boom");
+    const later = createTask({ title: "Later" });
+    addTaskDependency(later.id, broken.id);
+    expect(getTask(later.id)!.status).toBe("failed");
+  });
+});
+
+describe("Task retries", () => {
+  test("max_attempts is stored per task", () => {
+    const task = createTask({ title: "Flaky", max_attempts: 5 });
+    expect(task.max_attempts).toBe(5);
+    expect(task.attempt_count).toBe(0);
+  });
+
+  test("max_attempts defaults to null (use config)", () => {
+    expect(createTask({ title: "Default attempts" }).max_attempts).toBeNull();
+  });
+
+  test("scheduled retries wait for next_attempt_at", () => {
+    const later = createTask({ title: "Retry later" });
+    updateTaskStatus(later.id, "active");
+    scheduleTaskRetry(later.id, new Date(Date.now() + 60_000), "rate limited");
+
+    const row = getTask(later.id)!;
+    expect(row.status).toBe("pending");
+    expect(row.result).toBe("rate limited");
+    expect(row.next_attempt_at).toBeTruthy();
+    expect(getDueTasks().some((t) => t.id === later.id)).toBe(false);
+
+    const now = createTask({ title: "Retry now" });
+    updateTaskStatus(now.id, "active");
+    scheduleTaskRetry(now.id, new Date(Date.now() - 1000), "overloaded");
+    expect(getDueTasks().some((t) => t.id === now.id)).toBe(true);
+  });
+
+  test("retryTask re-queues a failed task and its cascade-failed dependents", () => {
+    const first = createTask({ title: "First" });
+    const second = createTask({ title: "Second" });
+    addTaskDependency(second.id, first.id);
+    updateTaskStatus(first.id, "active");
+    updateTaskStatus(first.id, "failed", "boom");
+    failDependents(first.id);
+
+    expect(retryTask(first.id)).toBe(true);
+    const requeued = getTask(first.id)!;
+    expect(requeued.status).toBe("pending");
+    expect(requeued.attempt_count).toBe(0);
+    expect(requeued.result).toBeNull();
+    expect(requeued.completed_at).toBeNull();
+    expect(getTask(second.id)!.status).toBe("pending");
+  });
+
+  test("retryTask refuses tasks that have not failed", () => {
+    const task = createTask({ title: "Still pending" });
+    expect(retryTask(task.id)).toBe(false);
+  });
+});
+
+describe("Task ordering", () => {
+  function backdate(id: number, hours: number): void {
+    getDb()
+      .prepare(`UPDATE tasks SET created_at = datetime('now', '-' || ? || ' hours') WHERE id = ?`)
+      .run(hours, id);
+  }
+
+  test("due tasks run in priority order", () => {
+    clearPending();
+    const low = createTask({ title: "Low", priority: 5 });
+    const urgent = createTask({ title: "Urgent", priority: 1 });
+    const normal = createTask({ title: "Normal", priority: 3 });
+
+    expect(getDueTasks().map((t) => t.id)).toEqual([urgent.id, normal.id, low.id]);
+    clearPending();
+  });
+
+  test("equal priorities fall back to scheduled time, then creation time", () => {
+    clearPending();
+    const later = createTask({ title: "Later slot", scheduled_at: "2000-01-02 00:00:00" });
+    const earlier = createTask({ title: "Earlier slot", scheduled_at: "2000-01-01 00:00:00" });
+    const older = createTask({ title: "Older" });
+    const newer = createTask({ title: "Newer" });
+    backdate(older.id, 0.5);
+
+    expect(getDueTasks(0).map((t) => t.id)).toEqual([earlier.id, later.id, older.id, newer.id]);
+    clearPending();
+  });
+
+  test("waiting tasks age upward past newer higher-priority tasks", () => {
+    clearPending();
+    const stale = createTask({ title: "Stale low priority", priority: 5 });
+    const fresh = createTask({ title: "Fresh high priority", priority: 2 });
+    backdate(stale.id, 80); // 3 steps at 24h → effective priority 2, and older
+
+    expect(getDueTasks(24).map((t) => t.id)).toEqual([stale.id, fresh.id]);
+    expect(getDueTasks(0).map((t) => t.id)).toEqual([fresh.id, stale.id]);
+    clearPending();
+  });
+
+  test("aging never lifts a task above priority 1", () => {
+    clearPending();
+    const urgent = createTask({
+      title: "Urgent",
+      priority: 1,
+      scheduled_at: "2000-01-01 00:00:00",
+    });
+    const ancient = createTask({ title: "Ancient", priority: 5 });
+    backdate(ancient.id, 24 * 365);
+
+    // Both effective priority 1; the urgent one became due first
+    expect(getDueTasks(24).map((t) => t.id)).toEqual([urgent.id, ancient.id]);
+    clearPending();
+  });
+
+  test("claimNextTask follows the same order", () => {
+    clearPending();
+    const low = createTask({ title: "Low", priority: 4 });
+    const high = createTask({ title: "High", priority: 2 });
+
+    expect(claimNextTask("owner-a")?.id).toBe(high.id);
+    expect(claimNextTask("owner-a")?.id).toBe(low.id);
+    updateTaskStatus(low.id, "completed");
+    updateTaskStatus(high.id, "completed");
+  });
+});
+
+describe("Task claiming", () => {
+  test("claimNextTask marks the task active, counts the attempt and sets the lease", () => {
+    clearPending();
+    const task = createTask({ title: "Claim me" });
+
+    const claimed = claimNextTask("owner-a");
+    expect(claimed?.id).toBe(task.id);
+    expect(claimed?.status).toBe("active");
+    expect(claimed?.attempt_count).toBe(1);
+    expect(claimed?.lease_owner).toBe("owner-a");
+
+    // Already claimed, so a second worker gets nothing
+    expect(claimNextTask("owner-b")).toBeNull();
+    updateTaskStatus(task.id, "completed");
+  });
+
+  test("claimNextTask skips tasks whose cwd already has an active task", () => {
+    clearPending();
+    const first = createTask({ title: "Repo A first", cwd: "/repo/a" });
+    const second = createTask({ title: "Repo A second", cwd: "/repo/a" });
+    const other = createTask({ title: "Repo B", cwd: "/repo/b" });
+
+    expect(claimNextTask("owner-a")?.id).toBe(first.id);
+    expect(claimNextTask("owner-b")?.id).toBe(other.id);
+    expect(claimNextTask("owner-c")).toBeNull();
+
+    updateTaskStatus(first.id, "completed");
+    expect(claimNextTask("owner-c")?.id).toBe(second.id);
+    updateTaskStatus(second.id, "completed");
+    updateTaskStatus(other.id, "completed");
+  });
+
+  test("tasks without a cwd can run side by side", () => {
+    clearPending();
+    const a = createTask({ title: "No cwd A" });
+    const b = createTask({ title: "No cwd B" });
+
+    expect(claimNextTask("owner-a")?.id).toBe(a.id);
+    expect(claimNextTask("owner-b")?.id).toBe(b.id);
+    updateTaskStatus(a.id, "completed");
+    updateTaskStatus(b.id, "completed");
+  });
+});
+
 describe("Memories", () => {
   test("create and list", () => {
     const mem = createMemory("test", "hello world", "unit-test");
@@ -186,6 +659,93 @@ describe("Memories", () => {
     const noResults = searchMemories("xyznonexistent");
     expect(noResults.length).toBe(0);
   });
+
+  test("search matches words in any order and stems them", () => {
+    createMemory("fts", "Fry prefers running in the mornings", "repl");
+    expect(searchMemories("mornings prefers").map((m) => m.content)).toContain(
+      "Fry prefers running in the mornings",
+    );
+    expect(searchMemories("runs morning").map((m) => m.content)).toContain(
+      "Fry prefers running in the mornings",
+    );
+  });
+
+  test("search ranks closer matches first and highlights terms", () => {
+    createMemory("fts", "glucose glucose glucose readings are logged daily", "cli-ask");
+    createMemory(
+      "fts",
+      "the pharmacy is near the glucose meter shop and several other long stops",
+      "repl",
+    );
+
+    const results = searchMemories("glucose", { category: "fts", highlight: ["<", ">"] });
+    expect(results.length).toBe(2);
+    expect(results[0]!.content).toStartWith("glucose glucose");
+    expect(results[0]!.rank).toBeLessThanOrEqual(results[1]!.rank);
+    expect(results[0]!.highlighted).toContain("<glucose>");
+  });
+
+  test("search filters by category, source and limit", () => {
+    expect(searchMemories("glucose", { source: "repl" }).map((m) => m.source)).toEqual(["repl"]);
+    expect(searchMemories("glucose", { category: "other" })).toHaveLength(0);
+    expect(searchMemories("glucose", { limit: 1 })).toHaveLength(1);
+  });
+
+  test("search treats punctuation as plain text", () => {
+    expect(() => searchMemories('fry\'s "glucose" -meter OR: (AND)')).not.toThrow();
+    expect(searchMemories("!!!")).toEqual([]);
+  });
+
+  test("the index follows updates and deletes", () => {
+    const mem = createMemory("fts", "zebra crossing near home");
+    getDb()
+      .prepare("UPDATE memories SET content = 'giraffe crossing near home' WHERE id = ?")
+      .run(mem.id);
+    expect(searchMemories("zebra")).toHaveLength(0);
+    expect(searchMemories("giraffe").map((m) => m.id)).toEqual([mem.id]);
+
+    getDb().prepare("DELETE FROM memories WHERE id = ?").run(mem.id);
+    expect(searchMemories("giraffe")).toHaveLength(0);
+  });
+
+  test("updateMemory changes content and category", () => {
+    const mem = createMemory("edit", "okapi sighting at the zoo");
+    const updated = updateMemory(mem.id, { content: "okapi sighting at the park" });
+    expect(updated?.content).toBe("okapi sighting at the park");
+    expect(updated?.category).toBe("edit");
+    expect(searchMemories("park").map((m) => m.id)).toEqual([mem.id]);
+
+    expect(updateMemory(mem.id, { category: "fact" })?.category).toBe("fact");
+    expect(updateMemory(999999, { content: "nope" })).toBeNull();
+  });
+
+  test("forgetMemory hides a memory until restoreMemory brings it back", () => {
+    const mem = createMemory("forget", "the spare key is under the mat");
+    const before = countMemories();
+
+    expect(forgetMemory(mem.id)?.forgotten_at).not.toBeNull();
+    expect(forgetMemory(mem.id)).toBeNull();
+    expect(countMemories()).toBe(before - 1);
+    expect(listMemories("forget")).toHaveLength(0);
+    expect(listMemories("forget", { includeInactive: true })).toHaveLength(1);
+    expect(searchMemories("spare key")).toHaveLength(0);
+    expect(getMemory(mem.id)?.content).toBe("the spare key is under the mat");
+
+    expect(restoreMemory(mem.id)?.forgotten_at).toBeNull();
+    expect(restoreMemory(mem.id)).toBeNull();
+    expect(searchMemories("spare key").map((m) => m.id)).toEqual([mem.id]);
+  });
+
+  test("listMemories filters by source and pinned, oldest first", () => {
+    const a = createMemory("listing", "first", "repl");
+    const b = createMemory("listing", "second", "task-1");
+    setMemoryPinned(b.id, true);
+
+    expect(listMemories("listing").map((m) => m.id)).toEqual([a.id, b.id]);
+    expect(listMemories("listing", { source: "repl" }).map((m) => m.id)).toEqual([a.id]);
+    expect(listMemories("listing", { pinned: true }).map((m) => m.id)).toEqual([b.id]);
+    expect(listMemories("listing", { limit: 1 }).map((m) => m.id)).toEqual([a.id]);
+  });
 });
 
 describe("Sessions", () => {
@@ -226,4 +786,153 @@ describe("Sessions", () => {
     const idx004 = sessions.findIndex((s) => s.claude_session_id === "sess-004");
     expect(idx003).toBeLessThan(idx004);
   });
+
+  test("record exchanges as a transcript", () => {
+    const session = createSession("sess-005");
+    recordExchange(session.id, {
+      prompt: "What changed?",
+      tools: ["Bash: git status", "Read: src/index.ts"],
+      response: "Two files changed.",
+    });
+    recordExchange(session.id, { prompt: "Thanks", response: "Any time." });
+
+    const transcript = listMessages(session.id).map((m) => [m.role, m.content]);
+    expect(transcript).toEqual([
+      ["user", "What changed?"],
+      ["tool", "Bash: git status"],
+      ["tool", "Read: src/index.ts"],
+      ["assistant", "Two files changed."],
+      ["user", "Thanks"],
+      ["assistant", "Any time."],
+    ]);
+    expect(listMessages(getSession("sess-001")!.id)).toEqual([]);
+  });
+});
+
+describe("Session management", () => {
+  test("find by Claude session id or row id", () => {
+    const session = createSession("sess-find", "Find me", "cli");
+    expect(session.kind).toBe("cli");
+    expect(findSession("sess-find")?.id).toBe(session.id);
+    expect(findSession(String(session.id))?.claude_session_id).toBe("sess-find");
+    expect(findSession("nope")).toBeNull();
+  });
+
+  test("rename and tag", () => {
+    const session = createSession("sess-tag", "[chat] what was the first prompt", "chat");
+    expect(renameSession(session.id, "Trip planning")).toBe(true);
+    expect(getSession("sess-tag")?.title).toBe("Trip planning");
+    expect(renameSession(99999, "Nothing")).toBe(false);
+
+    addSessionTag(session.id, "travel");
+    addSessionTag(session.id, "2026");
+    addSessionTag(session.id, "travel");
+    expect(getSessionTags(session.id)).toEqual(["2026", "travel"]);
+    expect(listSessions({ tag: "travel" }).map((s) => s.id)).toEqual([session.id]);
+
+    expect(removeSessionTag(session.id, "2026")).toBe(true);
+    expect(removeSessionTag(session.id, "2026")).toBe(false);
+    expect(getSessionTags(session.id)).toEqual(["travel"]);
+  });
+
+  test("latest session of a kind ignores titles and archived sessions", () => {
+    const chat = createSession(
+      "sess-latest-chat",
+      "[cli] a chat whose title looks like ask",
+      "chat",
+    );
+    getDb()
+      .prepare("UPDATE sessions SET last_active_at = datetime('now', '+1 minute') WHERE id = $id")
+      .run({ $id: chat.id });
+    expect(getLatestSession("chat")?.id).toBe(chat.id);
+    expect(getLatestSession("cli")?.id).not.toBe(chat.id);
+
+    setSessionArchived(chat.id, true);
+    expect(getLatestSession("chat")?.id).not.toBe(chat.id);
+    setSessionArchived(chat.id, false);
+  });
+
+  test("filter by kind", () => {
+    const voice = createSession("sess-voice", "[voice] hello", "voice");
+    const kinds = listSessions({ kind: "voice" });
+    expect(kinds.map((s) => s.id)).toContain(voice.id);
+    expect(kinds.every((s) => s.kind === "voice")).toBe(true);
+  });
+
+  test("kinds beyond the interactive commands", () => {
+    expect(isSessionKind("heartbeat")).toBe(true);
+    expect(isSessionKind("api")).toBe(true);
+    expect(isSessionKind("[cli]")).toBe(false);
+
+    const task = createSession("sess-heartbeat", "Nightly report", "heartbeat");
+    expect(getLatestSession("heartbeat")?.id).toBe(task.id);
+    expect(listSessions({ kind: "heartbeat" }).map((s) => s.id)).toEqual([task.id]);
+  });
+
+  test("archived sessions are hidden unless asked for", () => {
+    const session = createSession("sess-archive");
+    expect(setSessionArchived(session.id, true)).toBe(true);
+    expect(getSession("sess-archive")?.archived_at).not.toBeNull();
+    expect(listSessions().some((s) => s.id === session.id)).toBe(false);
+    expect(listSessions({ includeArchived: true }).some((s) => s.id === session.id)).toBe(true);
+
+    setSessionArchived(session.id, false);
+    expect(getSession("sess-archive")?.archived_at).toBeNull();
+  });
+
+  test("delete removes the transcript and tags and unlinks memories", () => {
+    const session = createSession("sess-delete");
+    recordExchange(session.id, { prompt: "hi", response: "hello" });
+    addSessionTag(session.id, "scratch");
+    const memory = createMemory("fact", "Learned in a deleted session", "test", {
+      session_id: session.id,
+    });
+
+    expect(deleteSession(session.id)).toBe(true);
+    expect(getSession("sess-delete")).toBeNull();
+    expect(listMessages(session.id)).toEqual([]);
+    expect(getSessionTags(session.id)).toEqual([]);
+    expect(getMemory(memory.id)?.session_id).toBeNull();
+    expect(deleteSession(session.id)).toBe(false);
+  });
+
+  test("forks link to their parent and don't take over auto-resume", () => {
+    const main = createSession("sess-main", "Trip planning", "voice");
+    const fork = createSession("sess-branch", "Trip planning (fork)", "voice", main.id);
+    expect(fork.parent_session_id).toBe(main.id);
+    expect(listSessionForks(main.id).map((s) => s.id)).toEqual([fork.id]);
+
+    updateSession("sess-main");
+    updateSession("sess-branch");
+    expect(getLatestSession("voice")?.id).toBe(main.id);
+    expect(listSessions({ kind: "voice" }).map((s) => s.id)).toContain(fork.id);
+  });
+
+  test("deleting a parent keeps its forks out of auto-resume", () => {
+    const main = createSession("sess-root", "Recipes", "chat");
+    const fork = createSession("sess-root-fork", "Recipes (fork)", "chat", main.id);
+    const nested = createSession("sess-root-fork-2", "Recipes (fork) (fork)", "chat", fork.id);
+    getDb()
+      .prepare("UPDATE sessions SET last_active_at = datetime('now', '+2 minutes') WHERE id = $id")
+      .run({ $id: nested.id });
+
+    deleteSession(fork.id);
+    expect(getSession("sess-root-fork-2")?.parent_session_id).toBe(main.id);
+    deleteSession(main.id);
+    expect(getSession("sess-root-fork-2")).toMatchObject({ parent_session_id: null, is_fork: 1 });
+    expect(getLatestSession("chat")?.id).not.toBe(nested.id);
+  });
+
+  test("prune deletes sessions idle since the cutoff", () => {
+    const stale = createSession("sess-stale");
+    const fresh = createSession("sess-fresh");
+    getDb()
+      .prepare("UPDATE sessions SET last_active_at = '2020-01-01 00:00:00' WHERE id = $id")
+      .run({ $id: stale.id });
+
+    const pruned = pruneSessions("2021-01-01 00:00:00");
+    expect(pruned.map((s) => s.id)).toEqual([stale.id]);
+    expect(getSession("sess-stale")).toBeNull();
+    expect(getSession("sess-fresh")?.id).toBe(fresh.id);
+  });
 });
@@ -0,0 +1,139 @@
+import { describe, expect, test, beforeEach, beforeAll, afterAll, spyOn } from "bun:test";
+import { join } from "path";
+import { tmpdir } from "os";
+import { mkdtempSync, rmSync } from "fs";
+import { closeDb, getDb, _setDbPath } from "@/db/index.ts";
+import {
+  createMemory,
+  countMemories,
+  listMemories,
+  listSupersededMemories,
+  searchMemories,
+  setMemoryPinned,
+  supersedeMemory,
+} from "@/db/memories.ts";
+import {
+  findMatchingMemory,
+  matchCoverage,
+  memorySimilarity,
+  normalizeMemoryText,
+  recordMemory,
+} from "@/memory/dedupe.ts";
+import { selectMemories } from "@/memory/relevance.ts";
+import { logger } from "@/logger/index.ts";
+
+const testDir = mkdtempSync(join(tmpdir(), "fryler-dedupe-test-"));
+const thresholds = { duplicate: 0.85 };
+
+beforeAll(() => {
+  _setDbPath(join(testDir, "fryler.db"));
+});
+
+beforeEach(() => {
+  getDb().exec("DELETE FROM memories");
+});
+
+afterAll(() => {
+  closeDb();
+  _setDbPath(null);
+  rmSync(testDir, { recursive: true, force: true });
+});
+
+describe("memorySimilarity", () => {
+  test("ignores case, punctuation, stop words and plurals", () => {
+    expect(normalizeMemoryText("The user prefers TypeScript!")).toEqual(
+      new Set(["user", "prefer", "typescript"]),
+    );
+    expect(memorySimilarity("User prefers TypeScript", "the user prefers typescript.")).toBe(1);
+  });
+
+  test("a changed detail is not a duplicate", () => {
+    const score = memorySimilarity(
+      "Fry prefers TypeScript for new projects",
+      "Fry prefers Python for new projects",
+    );
+    expect(score).toBeLessThan(thresholds.duplicate);
+  });
+
+  test("unrelated memories score low", () => {
+    expect(memorySimilarity("Fry drinks coffee", "The car needs an MOT")).toBe(0);
+  });
+});
+
+describe("recordMemory", () => {
+  test("stores a memory with nothing similar in its category", () => {
+    createMemory("preference", "Fry drinks coffee every morning");
+    const result = recordMemory("fact", "The car is due for an MOT", "test", thresholds);
+    expect(result.outcome).toBe("created");
+    expect(result.memory.content).toBe("The car is due for an MOT");
+    expect(countMemories()).toBe(2);
+  });
+
+  test("skips a near-duplicate in the same category", () => {
+    const existing = createMemory("preference", "User prefers TypeScript");
+    const result = recordMemory("preference", "The user prefers TypeScript.", "test", thresholds);
+    expect(result.outcome).toBe("duplicate");
+    expect(result.memory.id).toBe(existing.id);
+    expect(countMemories()).toBe(1);
+  });
+
+  test("the same text in another category is not a duplicate", () => {
+    createMemory("preference", "User prefers TypeScript");
+    const result = recordMemory("project", "User prefers TypeScript", "test", thresholds);
+    expect(result.outcome).toBe("created");
+  });
+
+  test("a close but different fact is kept alongside the older memory", () => {
+    const sister = createMemory("fact", "Sister's birthday is March 3");
+    const result = recordMemory("fact", "Brother's birthday is March 3", "test", thresholds);
+    expect(result.outcome).toBe("created");
+    expect(listMemories("fact").map((m) => m.id)).toEqual([sister.id, result.memory.id]);
+  });
+
+  test("superseded memories are left out of search and injected context", () => {
+    const old = createMemory("preference", "Fry prefers TypeScript for new projects");
+    setMemoryPinned(old.id, true);
+    const current = createMemory("preference", "Fry prefers Python for new projects");
+    supersedeMemory(old.id, current.id);
+
+    expect(listSupersededMemories(current.id).map((m) => m.id)).toEqual([old.id]);
+    expect(listMemories("preference").map((m) => m.pinned)).toEqual([1]);
+    const selected = selectMemories("which language for new projects", {
+      maxMemories: 10,
+      tokenBudget: 1000,
+    });
+    expect(selected.memories.map((m) => m.content)).toEqual([
+      "Fry prefers Python for new projects",
+    ]);
+    expect(searchMemories("TypeScript")).toHaveLength(0);
+    expect(searchMemories("TypeScript", { includeInactive: true })).toHaveLength(1);
+  });
+});
+
+describe("findMatchingMemory", () => {
+  test("a few words find the memory that contains them", () => {
+    expect(matchCoverage("uses Vim", "Fry uses Vim as their main editor")).toBe(1);
+    const vim = createMemory("preference", "Fry uses Vim as their main editor");
+    createMemory("preference", "Fry drinks coffee every morning");
+    expect(findMatchingMemory("uses Vim")?.id).toBe(vim.id);
+    expect(findMatchingMemory("uses Vim", "project")).toBeNull();
+  });
+
+  test("a full match beats partial ones", () => {
+    const editor = createMemory("preference", "Fry uses Vim for email and notes");
+    createMemory("preference", "Fry uses Emacs for notes");
+    expect(findMatchingMemory("uses Vim for notes")?.id).toBe(editor.id);
+  });
+
+  test("several memories containing every word match nothing", () => {
+    const warnSpy = spyOn(logger, "warn").mockImplementation(() => {});
+    const email = createMemory("preference", "Fry uses Vim for email and notes");
+    const editor = createMemory("preference", "Fry uses Vim");
+    expect(findMatchingMemory("uses Vim")).toBeNull();
+    expect(warnSpy).toHaveBeenCalledWith("Memory match is ambiguous, ignoring it", {
+      match: "uses Vim",
+      ids: [editor.id, email.id],
+    });
+    warnSpy.mockRestore();
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, expect, test, beforeEach, beforeAll, afterAll } from "bun:test";
+import { join } from "path";
+import { tmpdir } from "os";
+import { mkdtempSync, rmSync } from "fs";
+import { closeDb, getDb, _setDbPath } from "@/db/index.ts";
+import {
+  countMemories,
+  createMemory,
+  getMemory,
+  isMemoryCurrent,
+  listMemories,
+  resolveMemoryExpiry,
+  searchMemories,
+} from "@/db/memories.ts";
+import {
+  appendMemory,
+  archiveExpiredMemoryEntries,
+  getIdentityContext,
+  readMemory,
+  storeMemory,
+  _setIdentityDir,
+} from "@/memory/index.ts";
+import { syncMemoryFile } from "@/memory/sync.ts";
+import { fromSqliteDatetime, toSqliteDatetime } from "@/time/index.ts";
+
+const testDir = mkdtempSync(join(tmpdir(), "fryler-expiry-test-"));
+const memoryPath = join(testDir, "MEMORY.md");
+const hourAgo = () => toSqliteDatetime(new Date(Date.now() - 60 * 60 * 1000));
+
+beforeAll(() => {
+  _setDbPath(join(testDir, "fryler.db"));
+  _setIdentityDir(testDir);
+});
+
+beforeEach(async () => {
+  getDb().exec("DELETE FROM memories");
+  await Bun.write(memoryPath, "# Fryler — Memory\n\n## Facts\n");
+});
+
+afterAll(() => {
+  closeDb();
+  _setDbPath(null);
+  _setIdentityDir(null);
+  rmSync(testDir, { recursive: true, force: true });
+});
+
+describe("resolveMemoryExpiry", () => {
+  const now = new Date("2025-03-01T12:00:00Z");
+
+  test("takes a date, or a duration from now", () => {
+    expect(resolveMemoryExpiry("2025-03-07T18:00:00Z", null, now)).toBe("2025-03-07 18:00:00");
+    expect(resolveMemoryExpiry(null, "3d", now)).toBe("2025-03-04 12:00:00");
+    expect(resolveMemoryExpiry("2025-03-07T18:00:00Z", "3d", now)).toBe("2025-03-07 18:00:00");
+    expect(resolveMemoryExpiry(null, null, now)).toBeNull();
+  });
+
+  test("rejects values it can't read", () => {
+    expect(() => resolveMemoryExpiry("next Friday", null, now)).toThrow("Invalid expiry");
+    expect(() => resolveMemoryExpiry(null, "a while", now)).toThrow("Invalid duration");
+  });
+});
+
+describe("expiring memories", () => {
+  test("an expired memory is no longer current or injected", async () => {
+    const travelling = createMemory("fact", "Fry is travelling in Lisbon", "test", {
+      expires_at: hourAgo(),
+    });
+    const staging = createMemory("fact", "The staging server is down", "test", { ttl: "12h" });
+
+    expect(isMemoryCurrent(travelling)).toBe(false);
+    expect(isMemoryCurrent(staging)).toBe(true);
+    expect(listMemories().map((m) => m.id)).toEqual([staging.id]);
+    expect(countMemories()).toBe(1);
+    expect(searchMemories("Lisbon")).toHaveLength(0);
+    expect(listMemories(undefined, { includeInactive: true })).toHaveLength(2);
+
+    const ctx = await getIdentityContext("where is Fry travelling");
+    expect(ctx).not.toContain("Lisbon");
+    expect(ctx).toContain("staging server");
+  });
+
+  test("storeMemory passes a marker's expiry on", async () => {
+    const { memory } = await storeMemory("fact", "Staging is down", "test", {}, { ttl: "2h" });
+    const hours = (fromSqliteDatetime(memory.expires_at!).getTime() - Date.now()) / 3600000;
+    expect(hours).toBeGreaterThan(1.9);
+    expect(hours).toBeLessThanOrEqual(2);
+  });
+
+  test("housekeeping archives expired memories and removes their entries", async () => {
+    const travelling = createMemory("fact", "Fry is travelling in Lisbon", "test");
+    const boiler = createMemory("fact", "The boiler was serviced in March", "test");
+    await appendMemory(travelling);
+    await appendMemory(boiler);
+    getDb().prepare("UPDATE memories SET expires_at = $at WHERE id = $id").run({
+      $at: hourAgo(),
+      $id: travelling.id,
+    });
+
+    const archived = await archiveExpiredMemoryEntries();
+    expect(archived.map((m) => m.id)).toEqual([travelling.id]);
+    expect(getMemory(travelling.id)?.archived_at).not.toBeNull();
+
+    const text = await readMemory();
+    expect(text).not.toContain("Lisbon");
+    expect(text).toContain("The boiler was serviced in March");
+
+    // Nothing left to archive
+    expect(await archiveExpiredMemoryEntries()).toEqual([]);
+  });
+
+  test("sync drops the entry of a memory that expired before housekeeping ran", async () => {
+    const travelling = createMemory("fact", "Fry is travelling in Lisbon", "test");
+    await appendMemory(travelling);
+    getDb().prepare("UPDATE memories SET expires_at = $at WHERE id = $id").run({
+      $at: hourAgo(),
+      $id: travelling.id,
+    });
+
+    const report = await syncMemoryFile();
+    expect(report.fileRemoved).toEqual([travelling.id]);
+    expect(report.dbForgotten).toEqual([]);
+    expect(getMemory(travelling.id)?.forgotten_at).toBeNull();
+    expect(await readMemory()).not.toContain("Lisbon");
+  });
+});
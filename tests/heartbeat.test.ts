@@ -1,9 +1,22 @@
 import { describe, expect, test, beforeAll, afterAll, afterEach } from "bun:test";
 import { join } from "path";
-import { unlinkSync } from "fs";
+import { tmpdir } from "os";
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, unlinkSync, writeFileSync } from "fs";
 import { getDb, closeDb, _setDbPath } from "@/db/index.ts";
 import { createTask, getTask, getDueTasks, updateTaskStatus } from "@/db/tasks.ts";
-import { startHeartbeat, stopHeartbeat, isHeartbeatRunning } from "@/daemon/heartbeat.ts";
+import { recordRun } from "@/db/runs.ts";
+import { getDefaultConfig, _setConfig } from "@/config/index.ts";
+import { _setIdentityDir } from "@/memory/index.ts";
+import { _setOutboxDir } from "@/outbox/index.ts";
+import { _resetBudgetNotification } from "@/daemon/budget.ts";
+import {
+  startHeartbeat,
+  stopHeartbeat,
+  isHeartbeatRunning,
+  heartbeatTick,
+  triggerHeartbeat,
+  stopRunningTasks,
+} from "@/daemon/heartbeat.ts";
 
 const TEST_DB_PATH = join("/tmp", `fryler-heartbeat-test-${Date.now()}.db`);
 
@@ -100,3 +113,132 @@ describe("Heartbeat task DB operations", () => {
     expect(updated.result).toBe("Error: something broke");
   });
 });
+
+describe("Worker pool", () => {
+  const poolDir = mkdtempSync(join(tmpdir(), "fryler-pool-test-"));
+  const binDir = join(poolDir, "bin");
+  const runLog = join(poolDir, "runs.log");
+  const originalPath = process.env.PATH;
+
+  beforeAll(() => {
+    // A stand-in `claude` that logs when each run starts and ends
+    mkdirSync(binDir);
+    writeFileSync(
+      join(binDir, "claude"),
+      `#!/bin/sh
+echo start >> "${runLog}"
+sleep \${CLAUDE_SLEEP:-0.3}
+echo end >> "${runLog}"
+if [ -n "$CLAUDE_STDERR" ]; then echo "$CLAUDE_STDERR" >&2; exit 1; fi
+if [ -n "$CLAUDE_REPLY" ]; then echo "$CLAUDE_REPLY"; exit 0; fi
+echo '{"type":"result","result":"done","session_id":"","is_error":false}'
+`,
+      { mode: 0o755 },
+    );
+    process.env.PATH = `${binDir}:${originalPath}`;
+    _setIdentityDir(poolDir);
+    _setOutboxDir(join(poolDir, "outbox"));
+    _setConfig({ ...getDefaultConfig(), max_concurrent_tasks: 2 });
+    // Leave only this block's tasks due
+    getDb().exec("UPDATE tasks SET status = 'completed' WHERE status = 'pending'");
+  });
+
+  afterEach(() => {
+    writeFileSync(runLog, "");
+    delete process.env.CLAUDE_SLEEP;
+    delete process.env.CLAUDE_STDERR;
+    delete process.env.CLAUDE_REPLY;
+  });
+
+  afterAll(() => {
+    process.env.PATH = originalPath;
+    _setIdentityDir(null);
+    _setOutboxDir(null);
+    _setConfig(null);
+    rmSync(poolDir, { recursive: true, force: true });
+  });
+
+  /** Most runs the log shows in flight at once. */
+  function peakConcurrency(): number {
+    let current = 0;
+    let peak = 0;
+    for (const line of readFileSync(runLog, "utf8").trim().split("\n")) {
+      current += line === "start" ? 1 : -1;
+      peak = Math.max(peak, current);
+    }
+    return peak;
+  }
+
+  test("claims up to max_concurrent_tasks at once", async () => {
+    const tasks = [1, 2, 3, 4].map((n) => createTask({ title: `Pooled ${n}` }));
+    await triggerHeartbeat();
+
+    expect(tasks.map((t) => getTask(t.id)!.status)).toEqual(Array(4).fill("completed"));
+    expect(peakConcurrency()).toBe(2);
+  });
+
+  test("a finished task's slot is refilled without waiting for the next tick", async () => {
+    const tasks = [1, 2, 3].map((n) => createTask({ title: `Refill ${n}` }));
+    await heartbeatTick();
+
+    // The tick only waits for the two runs it started; the third took a freed slot
+    expect(getTask(tasks[2]!.id)!.status).not.toBe("pending");
+    await triggerHeartbeat();
+    expect(getTask(tasks[2]!.id)!.status).toBe("completed");
+  });
+
+  test("nothing starts once the daily budget is spent", async () => {
+    _resetBudgetNotification();
+    _setConfig({ ...getDefaultConfig(), max_concurrent_tasks: 2, daily_budget_usd: 1 });
+    const run = recordRun({ source: "heartbeat", cost_usd: 1 });
+    const task = createTask({ title: "Over budget" });
+
+    await heartbeatTick();
+    expect(getTask(task.id)!.status).toBe("pending");
+
+    getDb().prepare("DELETE FROM claude_runs WHERE id = ?").run(run.id);
+    _setConfig({ ...getDefaultConfig(), max_concurrent_tasks: 2 });
+    await triggerHeartbeat();
+    expect(getTask(task.id)!.status).toBe("completed");
+  });
+
+  test("shutdown aborts running tasks and puts them back to pending", async () => {
+    process.env.CLAUDE_SLEEP = "30";
+    const task = createTask({ title: "Cut short" });
+    const tick = heartbeatTick();
+    while (getTask(task.id)!.status !== "active") await Bun.sleep(10);
+
+    await stopRunningTasks();
+    await tick;
+    expect(getTask(task.id)!.status).toBe("pending");
+    updateTaskStatus(task.id, "completed");
+  });
+
+  test("a transient error on claude's stderr is retried", async () => {
+    process.env.CLAUDE_SLEEP = "0";
+    process.env.CLAUDE_STDERR = "API Error: 529 overloaded_error";
+    const task = createTask({ title: "Overloaded" });
+    await triggerHeartbeat();
+
+    const retried = getTask(task.id)!;
+    expect(retried.status).toBe("pending");
+    expect(retried.next_attempt_at).toBeTruthy();
+    updateTaskStatus(task.id, "completed");
+  });
+
+  test("an error result is not retried, whatever its text says", async () => {
+    process.env.CLAUDE_SLEEP = "0";
+    process.env.CLAUDE_REPLY = JSON.stringify({
+      type: "result",
+      result: "The docs say to back off on a 429 rate limit",
+      session_id: "",
+      is_error: true,
+    });
+    const task = createTask({ title: "Rate limits" });
+    await triggerHeartbeat();
+
+    const failed = getTask(task.id)!;
+    expect(failed.status).toBe("failed");
+    expect(failed.result).toContain("429 rate limit");
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, expect, test, beforeAll, afterAll } from "bun:test";
+import { join } from "path";
+import { unlinkSync } from "fs";
+import { hostname } from "os";
+import { getDb, closeDb, _setDbPath } from "@/db/index.ts";
+import {
+  createTask,
+  getTask,
+  renewTaskLease,
+  updateTaskStatus,
+  addTaskDependency,
+  requestTaskCancel,
+  retryTask,
+} from "@/db/tasks.ts";
+import {
+  getLeaseOwner,
+  isLeaseOwnerAlive,
+  findOrphanedTasks,
+  recoverOrphanedTasks,
+} from "@/daemon/lease.ts";
+
+const TEST_DB_PATH = join("/tmp", `fryler-lease-test-${Date.now()}.db`);
+
+/** A lease owner for a PID that cannot exist on this host. */
+const DEAD_OWNER = `${hostname()}:2147483646:dead`;
+
+/** Mark a task active under `owner`, as claimNextTask would. */
+function startTask(id: number, owner: string): void {
+  getDb()
+    .prepare(
+      `UPDATE tasks SET status = 'active', lease_owner = $owner, lease_heartbeat_at = datetime('now')
+       WHERE id = $id`,
+    )
+    .run({ $id: id, $owner: owner });
+}
+
+function backdateLease(id: number, seconds: number): void {
+  getDb()
+    .prepare(
+      `UPDATE tasks SET lease_heartbeat_at = datetime('now', '-' || $seconds || ' seconds')
+       WHERE id = $id`,
+    )
+    .run({ $id: id, $seconds: seconds });
+}
+
+beforeAll(() => {
+  _setDbPath(TEST_DB_PATH);
+  getDb();
+});
+
+afterAll(() => {
+  closeDb();
+  try {
+    unlinkSync(TEST_DB_PATH);
+    unlinkSync(TEST_DB_PATH + "-wal");
+    unlinkSync(TEST_DB_PATH + "-shm");
+  } catch {
+    // ignore cleanup errors
+  }
+  _setDbPath(null);
+});
+
+describe("isLeaseOwnerAlive", () => {
+  test("our own lease is alive", () => {
+    expect(isLeaseOwnerAlive(getLeaseOwner())).toBe(true);
+  });
+
+  test("an earlier process with our PID is dead", () => {
+    expect(isLeaseOwnerAlive(`${hostname()}:${process.pid}:earlier`)).toBe(false);
+  });
+
+  test("a missing PID on this host is dead", () => {
+    expect(isLeaseOwnerAlive(DEAD_OWNER)).toBe(false);
+  });
+
+  test("owners on other hosts are assumed alive", () => {
+    expect(isLeaseOwnerAlive("some-other-host:1:abc")).toBe(true);
+  });
+});
+
+describe("orphaned task recovery", () => {
+  test("a live, fresh lease is not orphaned", () => {
+    const task = createTask({ title: "Running" });
+    startTask(task.id, getLeaseOwner());
+    expect(renewTaskLease(task.id, getLeaseOwner())).toBe(true);
+    expect(findOrphanedTasks(300).some((t) => t.id === task.id)).toBe(false);
+    updateTaskStatus(task.id, "completed", "done");
+  });
+
+  test("a stale lease or a dead owner is orphaned", () => {
+    const stale = createTask({ title: "Stale" });
+    startTask(stale.id, getLeaseOwner());
+    backdateLease(stale.id, 600);
+
+    const dead = createTask({ title: "Dead owner" });
+    startTask(dead.id, DEAD_OWNER);
+
+    const ids = findOrphanedTasks(300).map((t) => t.id);
+    expect(ids).toContain(stale.id);
+    expect(ids).toContain(dead.id);
+
+    recoverOrphanedTasks("requeue", 300);
+  });
+
+  test("leaving active releases the lease", () => {
+    const task = createTask({ title: "Release" });
+    startTask(task.id, getLeaseOwner());
+    updateTaskStatus(task.id, "completed", "ok");
+    const row = getTask(task.id)!;
+    expect(row.lease_owner).toBeNull();
+    expect(row.lease_heartbeat_at).toBeNull();
+    expect(renewTaskLease(task.id, getLeaseOwner())).toBe(false);
+  });
+
+  test("requeue policy puts the task back to pending", () => {
+    const task = createTask({ title: "Requeue me" });
+    startTask(task.id, DEAD_OWNER);
+    recoverOrphanedTasks("requeue", 300);
+    expect(getTask(task.id)!.status).toBe("pending");
+  });
+
+  test("fail policy fails the task and its dependents", () => {
+    const task = createTask({ title: "Fail me" });
+    const dependent = createTask({ title: "Downstream" });
+    addTaskDependency(dependent.id, task.id);
+    startTask(task.id, DEAD_OWNER);
+
+    recoverOrphanedTasks("fail", 300);
+    expect(getTask(task.id)!.status).toBe("failed");
+    expect(getTask(task.id)!.result).toContain("Interrupted");
+    expect(getTask(dependent.id)!.status).toBe("failed");
+  });
+
+  test("interrupt policy marks the task interrupted", () => {
+    const task = createTask({ title: "Interrupt me" });
+    startTask(task.id, DEAD_OWNER);
+    recoverOrphanedTasks("interrupt", 300);
+    const row = getTask(task.id)!;
+    expect(row.status).toBe("interrupted");
+    expect(row.completed_at).toBeTruthy();
+  });
+
+  test("retrying a recovered recurring task does not fork the series", () => {
+    const task = createTask({ title: "Recurring orphan", recurrence: "@hourly" });
+    startTask(task.id, DEAD_OWNER);
+    recoverOrphanedTasks("interrupt", 300);
+
+    const next = getDb()
+      .prepare("SELECT id FROM tasks WHERE series_id = $id")
+      .all({ $id: task.id }) as { id: number }[];
+    expect(next).toHaveLength(1);
+    expect(getTask(task.id)!.recurrence).toBeNull();
+
+    expect(retryTask(task.id)).toBe(true);
+    startTask(task.id, DEAD_OWNER);
+    recoverOrphanedTasks("fail", 300);
+    const after = getDb()
+      .prepare("SELECT id FROM tasks WHERE series_id = $id")
+      .all({ $id: task.id }) as { id: number }[];
+    expect(after).toEqual(next);
+  });
+
+  test("a task with a pending cancel request is cancelled whatever the policy", () => {
+    const task = createTask({ title: "Cancel me" });
+    startTask(task.id, DEAD_OWNER);
+    expect(requestTaskCancel(task.id)).toBe("requested");
+
+    recoverOrphanedTasks("requeue", 300);
+    const row = getTask(task.id)!;
+    expect(row.status).toBe("cancelled");
+    expect(row.cancel_requested_at).toBeNull();
+  });
+});
@@ -1,6 +1,11 @@
-import { describe, test, expect, afterEach } from "bun:test";
+import { describe, test, expect, beforeEach, afterEach, beforeAll, afterAll } from "bun:test";
 import { join } from "path";
-import { unlinkSync, existsSync } from "fs";
+import { tmpdir } from "os";
+import { existsSync, mkdtempSync, mkdirSync, rmSync } from "fs";
+import { closeDb, getDb, _setDbPath } from "@/db/index.ts";
+import { createMemory, getMemory, listMemoryAudit, type Memory } from "@/db/memories.ts";
+import { createSession, getSession } from "@/db/sessions.ts";
+import { createTask } from "@/db/tasks.ts";
 import {
   getProjectRoot,
   getIdentityDir,
@@ -8,8 +13,27 @@ import {
   readSoul,
   readMemory,
   getIdentityContext,
+  appendMemory,
+  removeMemoryEntry,
+  replaceMemoryEntry,
+  reviseMemory,
+  retractMemory,
+  storeMemory,
+  _setIdentityDir,
 } from "../src/memory/index";
 
+const testDir = mkdtempSync(join(tmpdir(), "fryler-memory-test-"));
+
+beforeAll(() => {
+  _setDbPath(join(testDir, "fryler.db"));
+});
+
+afterAll(() => {
+  closeDb();
+  _setDbPath(null);
+  rmSync(testDir, { recursive: true, force: true });
+});
+
 describe("memory", () => {
   test("getProjectRoot points to repo root", () => {
     const root = getProjectRoot();
@@ -41,35 +65,220 @@ describe("memory", () => {
   });
 
   describe("appendMemory", () => {
-    const tempPath = join(getProjectRoot(), "MEMORY_TEST_TEMP.md");
+    const identityDir = join(testDir, "identity");
+    const memoryPath = join(identityDir, "MEMORY.md");
+    const seed = [
+      "# Fryler — Memory",
+      "",
+      "## Preferences",
+      "",
+      "- Prefers tea over coffee",
+      "",
+      "## People",
+      "",
+      "- Leela is the captain",
+      "",
+      "### 2025-01-01T00:00:00.000Z",
+      "An older timestamped entry",
+      "",
+    ].join("\n");
+
+    beforeEach(async () => {
+      mkdirSync(identityDir, { recursive: true });
+      await Bun.write(memoryPath, seed);
+      _setIdentityDir(identityDir);
+    });
 
     afterEach(() => {
-      if (existsSync(tempPath)) unlinkSync(tempPath);
+      _setIdentityDir(null);
+      rmSync(identityDir, { recursive: true, force: true });
+      getDb().exec("DELETE FROM memories");
+    });
+
+    const tag = (m: Memory) => `<!-- mem:${m.id} -->`;
+
+    test("inserts an entry at the end of its category's section", async () => {
+      const seat = createMemory("preference", "Likes the window seat");
+      const bender = createMemory("person", "Bender lives next door");
+      await appendMemory(seat);
+      await appendMemory(bender);
+
+      const text = await readMemory();
+      expect(text).toContain(
+        `- Prefers tea over coffee\n- Likes the window seat ${tag(seat)}\n\n## People`,
+      );
+      expect(text).toContain(
+        `- Leela is the captain\n- Bender lives next door ${tag(bender)}\n\n### 2025`,
+      );
+      expect(text).toContain("### 2025-01-01T00:00:00.000Z\nAn older timestamped entry");
+      expect(getMemory(seat.id)?.synced_content).toBe("Likes the window seat");
     });
 
-    test("appends entry without overwriting existing content", async () => {
-      // Seed a temp file
-      await Bun.write(tempPath, "# Existing content\n");
-
-      // Replicate the append logic on a temp file to prove append semantics.
-      const file = Bun.file(tempPath);
-      const existing = await file.text();
-      const entry = "Learned something new";
-      const timestamp = new Date().toISOString();
-      const appended = `${existing}\n### ${timestamp}\n${entry}`;
-      await Bun.write(tempPath, appended);
-
-      const result = await Bun.file(tempPath).text();
-      expect(result).toContain("# Existing content");
-      expect(result).toContain("Learned something new");
-      expect(result).toContain("###");
+    test("creates a section for a category that has none", async () => {
+      const boiler = createMemory("fact", "The boiler was serviced in March");
+      await appendMemory(boiler);
+
+      const text = await readMemory();
+      expect(
+        text.endsWith(
+          `An older timestamped entry\n\n## Facts\n\n- The boiler was serviced in March ${tag(boiler)}\n`,
+        ),
+      ).toBe(true);
+    });
+
+    test("creates the file when it is missing", async () => {
+      rmSync(memoryPath);
+      const milk = createMemory("note", "Remember the milk");
+      await appendMemory(milk);
+
+      expect(await readMemory()).toBe(
+        `# Fryler — Memory\n\n## Notes\n\n- Remember the milk ${tag(milk)}\n`,
+      );
+    });
+
+    test("concurrent appends all land in a well-formed file", async () => {
+      const categories = ["preference", "person", "fact", "project"];
+      const memories = Array.from({ length: 20 }, (_, i) =>
+        createMemory(categories[i % categories.length]!, `memory number ${i}`),
+      );
+      await Promise.all(memories.map((m) => appendMemory(m)));
+
+      const text = await readMemory();
+      for (const m of memories) {
+        expect(text).toContain(`- ${m.content} ${tag(m)}\n`);
+      }
+      const headings = text.split("\n").filter((line) => line.startsWith("## "));
+      expect(headings).toEqual(["## Preferences", "## People", "## Facts", "## Projects"]);
+      expect(existsSync(`${memoryPath}.lock`)).toBe(false);
+    });
+
+    test("removeMemoryEntry finds an entry by its tag, or by its text", async () => {
+      const seat = createMemory("preference", "Likes the window seat");
+      await appendMemory(seat);
+      expect(await removeMemoryEntry(seat)).toBe(true);
+
+      const tea = { id: 999, category: "preference", content: "Prefers tea over coffee" };
+      expect(await removeMemoryEntry(tea)).toBe(true);
+      expect(await removeMemoryEntry(tea)).toBe(false);
+
+      const text = await readMemory();
+      expect(text).not.toContain("window seat");
+      expect(text).not.toContain("tea");
+      expect(text).toContain("## Preferences\n\n## People\n\n- Leela is the captain");
+    });
+
+    test("replaceMemoryEntry edits in place or moves the entry to its new section", async () => {
+      const tea = createMemory("preference", "Prefers tea over coffee");
+      const coffee = { ...tea, content: "Prefers coffee over tea" };
+      await replaceMemoryEntry(tea, coffee);
+      expect(await readMemory()).toContain(
+        `## Preferences\n\n- Prefers coffee over tea ${tag(tea)}\n\n`,
+      );
+      expect(getMemory(tea.id)?.synced_content).toBe("Prefers coffee over tea");
+
+      const leela = createMemory("person", "Leela is the captain");
+      await replaceMemoryEntry(leela, {
+        ...leela,
+        category: "fact",
+        content: "Leela captains the ship",
+      });
+      const text = await readMemory();
+      expect(text).not.toContain("Leela is the captain");
+      expect(text).toContain(`## Facts\n\n- Leela captains the ship ${tag(leela)}\n`);
+    });
+
+    test("storeMemory records the session or task a memory came from", async () => {
+      createSession("claude-session-1", "[chat] planning the trip");
+      const fromChat = await storeMemory("preference", "Likes the window seat", "repl", {
+        sessionId: "claude-session-1",
+        prompt: `Book me a seat.\n\n${"Really, any seat. ".repeat(20)}`,
+      });
+      expect(fromChat.memory.session_id).toBe(getSession("claude-session-1")!.id);
+      expect(fromChat.memory.task_id).toBeNull();
+      expect(fromChat.memory.prompt_excerpt).toStartWith("Book me a seat. Really, any seat.");
+      expect(fromChat.memory.prompt_excerpt).toHaveLength(200);
+      expect(fromChat.memory.prompt_excerpt).toEndWith("...");
+
+      const task = createTask({ title: "Check the boiler" });
+      const fromTask = await storeMemory("fact", "The boiler was serviced in March", "task", {
+        taskId: task.id,
+        sessionId: "not-tracked",
+        prompt: "Check the boiler",
+      });
+      expect(fromTask.memory.task_id).toBe(task.id);
+      expect(fromTask.memory.session_id).toBeNull();
+      expect(fromTask.memory.prompt_excerpt).toBe("Check the boiler");
+    });
+
+    test("reviseMemory updates a matched memory and audits the change", async () => {
+      const vim = createMemory("preference", "Fry uses Vim as their main editor");
+      await appendMemory(vim);
+
+      const target = { id: null, match: "uses Vim", category: null };
+      const updated = await reviseMemory(target, "Fry uses Neovim", "repl", "Switched editors");
+      expect(updated?.id).toBe(vim.id);
+      expect(updated?.content).toBe("Fry uses Neovim");
+      expect(await readMemory()).toContain(`- Fry uses Neovim ${tag(vim)}`);
+
+      expect(listMemoryAudit(vim.id)).toMatchObject([
+        {
+          action: "update",
+          source: "repl",
+          reason: "Switched editors",
+          old_content: "Fry uses Vim as their main editor",
+          new_content: "Fry uses Neovim",
+        },
+      ]);
+    });
+
+    test("retractMemory forgets a memory by id and audits the change", async () => {
+      const vim = createMemory("preference", "Fry uses Vim as their main editor");
+      await appendMemory(vim);
+
+      const forgotten = await retractMemory({ id: vim.id, match: null, category: null }, "task-7");
+      expect(forgotten?.forgotten_at).not.toBeNull();
+      expect(await readMemory()).not.toContain("Vim");
+      expect(listMemoryAudit(vim.id)).toMatchObject([
+        { action: "forget", source: "task-7", old_content: vim.content, new_content: null },
+      ]);
+
+      // Already forgotten: nothing more to do
+      expect(await retractMemory({ id: vim.id, match: null, category: null }, "repl")).toBeNull();
+      expect(listMemoryAudit(vim.id)).toHaveLength(1);
+    });
+
+    test("targets that match nothing or more than one memory change nothing", async () => {
+      const dark = createMemory("preference", "Likes dark coffee");
+      const iced = createMemory("fact", "Likes iced coffee");
+
+      const none = { id: null, match: "plays the holophonor", category: null };
+      expect(await retractMemory(none, "repl")).toBeNull();
+      expect(
+        await retractMemory({ id: null, match: "likes coffee", category: null }, "repl"),
+      ).toBeNull();
+
+      // A category narrows an ambiguous match down to one memory
+      const inFacts = { id: null, match: "likes coffee", category: "fact" };
+      expect((await retractMemory(inFacts, "repl"))?.id).toBe(iced.id);
+      expect(getMemory(dark.id)?.forgotten_at).toBeNull();
     });
   });
 
-  test("getIdentityContext combines both files with formatting", async () => {
+  test("getIdentityContext falls back to MEMORY.md while the DB has no memories", async () => {
     const ctx = await getIdentityContext();
     expect(ctx).toContain("=== FRYLER IDENTITY (SOUL.md) ===");
     expect(ctx).toContain("=== FRYLER MEMORY (MEMORY.md) ===");
     expect(ctx).toContain("Fryler");
   });
+
+  test("getIdentityContext injects relevant memories once the DB has some", async () => {
+    createMemory("preference", "Fry likes the window seat on trains");
+    createMemory("fact", "The boiler was serviced in March");
+
+    const ctx = await getIdentityContext("book a train ticket");
+    expect(ctx).toContain("=== FRYLER MEMORY (pinned and relevant to this request) ===");
+    expect(ctx).toContain("- [preference] Fry likes the window seat on trains");
+    expect(ctx).not.toContain("boiler");
+    expect(ctx).toContain("1 more memories");
+  });
 });
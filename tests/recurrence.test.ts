@@ -0,0 +1,80 @@
+import { describe, expect, test } from "bun:test";
+import { parseCron, isValidCron, nextOccurrence } from "@/tasks/recurrence.ts";
+
+describe("parseCron", () => {
+  test("parses wildcards, lists, ranges and steps", () => {
+    const s = parseCron("*/15 8-10 1,15 * 1-5");
+    expect([...s.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...s.hours]).toEqual([8, 9, 10]);
+    expect([...s.daysOfMonth]).toEqual([1, 15]);
+    expect(s.months.size).toBe(12);
+    expect([...s.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    expect(s.domRestricted).toBe(true);
+    expect(s.dowRestricted).toBe(true);
+  });
+
+  test("treats day-of-week 7 as Sunday", () => {
+    const s = parseCron("0 0 * * 7");
+    expect([...s.daysOfWeek]).toEqual([0]);
+  });
+
+  test("expands aliases", () => {
+    const s = parseCron("@daily");
+    expect([...s.minutes]).toEqual([0]);
+    expect([...s.hours]).toEqual([0]);
+  });
+
+  test("rejects wrong field count", () => {
+    expect(() => parseCron("0 8 * *")).toThrow("5 fields");
+  });
+
+  test("rejects out-of-range values", () => {
+    expect(() => parseCron("60 * * * *")).toThrow("out of range");
+    expect(() => parseCron("0 24 * * *")).toThrow("out of range");
+  });
+
+  test("rejects garbage", () => {
+    expect(isValidCron("every day")).toBe(false);
+    expect(isValidCron("*/0 * * * *")).toBe(false);
+    expect(isValidCron("0 8 * * *")).toBe(true);
+  });
+
+  test("rejects schedules that parse but never occur", () => {
+    expect(() => parseCron("0 0 31 2 *")).not.toThrow();
+    expect(isValidCron("0 0 31 2 *")).toBe(false);
+    expect(isValidCron("0 0 29 2 *")).toBe(true);
+  });
+});
+
+describe("nextOccurrence", () => {
+  test("finds the next daily run later the same day", () => {
+    const next = nextOccurrence("0 8 * * *", new Date(2026, 2, 1, 6, 30));
+    expect(next).toEqual(new Date(2026, 2, 1, 8, 0));
+  });
+
+  test("rolls over to the next day once the time has passed", () => {
+    const next = nextOccurrence("0 8 * * *", new Date(2026, 2, 1, 8, 0));
+    expect(next).toEqual(new Date(2026, 2, 2, 8, 0));
+  });
+
+  test("honours day-of-week", () => {
+    // 2026-03-01 is a Sunday; next Monday is 03-02
+    const next = nextOccurrence("30 9 * * 1", new Date(2026, 2, 1, 12, 0));
+    expect(next).toEqual(new Date(2026, 2, 2, 9, 30));
+  });
+
+  test("matches either day field when both are restricted", () => {
+    // 15th of the month OR a Friday; 2026-03-06 is a Friday
+    const next = nextOccurrence("0 0 15 * 5", new Date(2026, 2, 1, 0, 0));
+    expect(next).toEqual(new Date(2026, 2, 6, 0, 0));
+  });
+
+  test("crosses month and year boundaries", () => {
+    const next = nextOccurrence("0 0 1 1 *", new Date(2026, 5, 10));
+    expect(next).toEqual(new Date(2027, 0, 1, 0, 0));
+  });
+
+  test("throws for schedules that never occur", () => {
+    expect(() => nextOccurrence("0 0 31 2 *")).toThrow("No occurrence");
+  });
+});
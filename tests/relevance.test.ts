@@ -0,0 +1,67 @@
+import { describe, expect, test, beforeAll, afterAll } from "bun:test";
+import { join } from "path";
+import { tmpdir } from "os";
+import { mkdtempSync, rmSync } from "fs";
+import { closeDb, _setDbPath } from "@/db/index.ts";
+import { createMemory, setMemoryPinned } from "@/db/memories.ts";
+import { selectMemories, estimateTokens } from "@/memory/relevance.ts";
+
+const testDir = mkdtempSync(join(tmpdir(), "fryler-relevance-test-"));
+
+beforeAll(() => {
+  _setDbPath(join(testDir, "fryler.db"));
+  createMemory("preference", "Fry drinks coffee every morning");
+  createMemory("preference", "Fry dislikes decaf coffee");
+  createMemory("project", "The coffee grinder repair project is on hold");
+  createMemory("fact", "The car is due for an MOT in June");
+  const pinned = createMemory("person", "Fry's boss is Professor Farnsworth");
+  setMemoryPinned(pinned.id, true);
+});
+
+afterAll(() => {
+  closeDb();
+  _setDbPath(null);
+  rmSync(testDir, { recursive: true, force: true });
+});
+
+const contents = (memories: { content: string }[]) => memories.map((m) => m.content);
+
+describe("selectMemories", () => {
+  test("pinned memories come first, then matches for any prompt word", () => {
+    const { memories } = selectMemories("what coffee do I like?", {
+      maxMemories: 10,
+      tokenBudget: 1000,
+    });
+    expect(memories[0]!.content).toBe("Fry's boss is Professor Farnsworth");
+    expect(memories[0]!.rank).toBeNull();
+    expect(contents(memories)).toContain("Fry dislikes decaf coffee");
+    expect(contents(memories)).not.toContain("The car is due for an MOT in June");
+  });
+
+  test("maxMemories caps the relevant memories but not pinned ones", () => {
+    const { memories } = selectMemories("coffee", { maxMemories: 1, tokenBudget: 1000 });
+    expect(memories).toHaveLength(2);
+    expect(memories[1]!.rank).not.toBeNull();
+  });
+
+  test("the token budget limits relevant memories and reports what was skipped", () => {
+    const pinnedTokens = estimateTokens("- [person] Fry's boss is Professor Farnsworth");
+    const { memories, tokens, skipped } = selectMemories("coffee", {
+      maxMemories: 10,
+      tokenBudget: pinnedTokens + 12,
+    });
+    expect(memories).toHaveLength(2);
+    expect(skipped).toBe(2);
+    expect(tokens).toBeLessThanOrEqual(pinnedTokens + 12);
+  });
+
+  test("pinned memories are kept even when they exceed the budget", () => {
+    const { memories } = selectMemories("coffee", { maxMemories: 10, tokenBudget: 1 });
+    expect(contents(memories)).toEqual(["Fry's boss is Professor Farnsworth"]);
+  });
+
+  test("a prompt with no matches injects only pinned memories", () => {
+    const { memories } = selectMemories("!!!", { maxMemories: 10, tokenBudget: 1000 });
+    expect(memories).toHaveLength(1);
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, expect, test } from "bun:test";
+import { isRetryableError, getRetryDelayMs } from "@/tasks/retry.ts";
+
+describe("isRetryableError", () => {
+  test("treats rate limits and overload as retryable", () => {
+    expect(isRetryableError("claude exited with code 1: API Error: 429 rate_limit_error")).toBe(
+      true,
+    );
+    expect(isRetryableError("Rate limit reached, try again later")).toBe(true);
+    expect(isRetryableError('API Error: 529 {"type":"overloaded_error"}')).toBe(true);
+    expect(isRetryableError("API Error: 500 Internal server error")).toBe(true);
+  });
+
+  test("treats network failures as retryable", () => {
+    expect(isRetryableError("claude exited with code 1: Error: read ECONNRESET")).toBe(true);
+    expect(isRetryableError("getaddrinfo ENOTFOUND api.anthropic.com")).toBe(true);
+    expect(isRetryableError("TypeError: fetch failed")).toBe(true);
+  });
+
+  test("treats everything else as permanent", () => {
+    expect(isRetryableError("claude exited with code 1: Invalid API key")).toBe(false);
+    expect(isRetryableError("Reached max turns (25)")).toBe(false);
+    expect(isRetryableError("No result object found in claude JSON array output")).toBe(false);
+  });
+});
+
+describe("getRetryDelayMs", () => {
+  test("doubles the delay on each attempt", () => {
+    expect(getRetryDelayMs(1, 60, 3600)).toBe(60_000);
+    expect(getRetryDelayMs(2, 60, 3600)).toBe(120_000);
+    expect(getRetryDelayMs(3, 60, 3600)).toBe(240_000);
+  });
+
+  test("caps the delay at the maximum", () => {
+    expect(getRetryDelayMs(10, 60, 3600)).toBe(3_600_000);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, expect, test, beforeAll, afterAll } from "bun:test";
+import { join } from "path";
+import { unlinkSync } from "fs";
+import { getDb, closeDb, _setDbPath } from "@/db/index.ts";
+import { createTask } from "@/db/tasks.ts";
+import { createSession } from "@/db/sessions.ts";
+import { recordRun, getCostReport, getTotalCost, getTaskRunTotals } from "@/db/runs.ts";
+
+const TEST_DB_PATH = join("/tmp", `fryler-runs-test-${Date.now()}.db`);
+
+beforeAll(() => {
+  _setDbPath(TEST_DB_PATH);
+  getDb();
+});
+
+afterAll(() => {
+  closeDb();
+  try {
+    unlinkSync(TEST_DB_PATH);
+    unlinkSync(TEST_DB_PATH + "-wal");
+    unlinkSync(TEST_DB_PATH + "-shm");
+  } catch {
+    // ignore cleanup errors
+  }
+  _setDbPath(null);
+});
+
+describe("claude_runs ledger", () => {
+  test("recordRun stores every field", () => {
+    const run = recordRun({
+      claude_session_id: "sess-a",
+      source: "chat",
+      model: "sonnet",
+      cost_usd: 0.25,
+      duration_ms: 1234.6,
+      num_turns: 3,
+    });
+    expect(run.id).toBeGreaterThan(0);
+    expect(run.claude_session_id).toBe("sess-a");
+    expect(run.task_id).toBeNull();
+    expect(run.source).toBe("chat");
+    expect(run.cost_usd).toBe(0.25);
+    expect(run.duration_ms).toBe(1235);
+    expect(run.num_turns).toBe(3);
+    expect(run.is_error).toBe(0);
+    expect(run.created_at).toBeTruthy();
+  });
+
+  test("an empty session id is stored as null", () => {
+    const run = recordRun({ claude_session_id: "", source: "cli", is_error: true });
+    expect(run.claude_session_id).toBeNull();
+    expect(run.is_error).toBe(1);
+  });
+});
+
+describe("getCostReport", () => {
+  test("groups by task with the task title", () => {
+    const task = createTask({ title: "Nightly digest" });
+    recordRun({ task_id: task.id, source: "heartbeat", model: "sonnet", cost_usd: 0.5 });
+    recordRun({ task_id: task.id, source: "heartbeat", model: "sonnet", cost_usd: 0.75 });
+
+    const row = getCostReport("task").find((r) => r.key === String(task.id))!;
+    expect(row.label).toBe("Nightly digest");
+    expect(row.runs).toBe(2);
+    expect(row.cost_usd).toBeCloseTo(1.25);
+  });
+
+  test("getTaskRunTotals sums one task's runs", () => {
+    const task = createTask({ title: "Costed" });
+    recordRun({ task_id: task.id, source: "heartbeat", cost_usd: 0.1, num_turns: 2 });
+    recordRun({
+      task_id: task.id,
+      source: "heartbeat",
+      cost_usd: 0.2,
+      num_turns: 3,
+      is_error: true,
+    });
+
+    const totals = getTaskRunTotals(task.id);
+    expect(totals.runs).toBe(2);
+    expect(totals.cost_usd).toBeCloseTo(0.3);
+    expect(totals.num_turns).toBe(5);
+    expect(totals.errors).toBe(1);
+    expect(getTaskRunTotals(999999).runs).toBe(0);
+  });
+
+  test("groups by session with the session title", () => {
+    createSession("sess-a", "[chat] planning");
+    const row = getCostReport("session").find((r) => r.key === "sess-a")!;
+    expect(row.label).toBe("[chat] planning");
+    expect(row.cost_usd).toBeCloseTo(0.25);
+  });
+
+  test("groups by source and model, most expensive first", () => {
+    const bySource = getCostReport("source");
+    expect(bySource[0]!.key).toBe("heartbeat");
+    expect(bySource.map((r) => r.key)).toContain("cli");
+    expect(bySource.find((r) => r.key === "cli")!.errors).toBe(1);
+
+    const byModel = getCostReport("model");
+    expect(byModel[0]!.key).toBe("sonnet");
+    expect(byModel.some((r) => r.key === null)).toBe(true);
+  });
+
+  test("groups by day and honours since", () => {
+    const old = recordRun({ source: "cli", cost_usd: 2 });
+    getDb()
+      .prepare("UPDATE claude_runs SET created_at = datetime('now', '-10 days') WHERE id = ?")
+      .run(old.id);
+
+    expect(getCostReport("day").length).toBe(2);
+    expect(getTotalCost()).toBeCloseTo(3.8);
+
+    const since = new Date(Date.now() - 24 * 60 * 60 * 1000);
+    expect(getCostReport("day", since).length).toBe(1);
+    expect(getTotalCost(since)).toBeCloseTo(1.8);
+  });
+});
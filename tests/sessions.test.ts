@@ -0,0 +1,154 @@
+import { describe, expect, test, beforeAll, afterAll } from "bun:test";
+import { join } from "path";
+import { tmpdir } from "os";
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { closeDb, _setDbPath } from "@/db/index.ts";
+import { getSession } from "@/db/sessions.ts";
+import { listMessages } from "@/db/messages.ts";
+
+const testDir = mkdtempSync(join(tmpdir(), "fryler-sessions-test-"));
+const binDir = join(testDir, "bin");
+const callLog = join(testDir, "claude-calls.log");
+const cli = join(import.meta.dir, "..", "bin", "fryler.ts");
+
+beforeAll(() => {
+  // The CLI creates this database; the tests read what it recorded
+  _setDbPath(join(testDir, ".fryler", "fryler.db"));
+
+  // A stand-in `claude` that logs which session each call resumed ("new"
+  // for none, "fork:<id>" for a fork) and replies in that session, numbering
+  // new ones new-1, new-2... and forks fork-1, fork-2...
+  mkdirSync(binDir);
+  writeFileSync(
+    join(binDir, "claude"),
+    `#!/bin/sh
+id=""
+fork=""
+prev=""
+for arg in "$@"; do
+  [ "$prev" = "--resume" ] && id="$arg"
+  [ "$arg" = "--fork-session" ] && fork=1
+  prev="$arg"
+done
+if [ -n "$fork" ]; then
+  echo "fork:$id" >> "${callLog}"
+  id="fork-$(grep -c '^fork:' "${callLog}")"
+else
+  echo "\${id:-new}" >> "${callLog}"
+fi
+if [ -z "$id" ]; then
+  id="new-$(grep -c '^new$' "${callLog}")"
+fi
+echo "{\\"type\\":\\"result\\",\\"result\\":\\"ok\\",\\"session_id\\":\\"$id\\",\\"is_error\\":false}"
+`,
+    { mode: 0o755 },
+  );
+});
+
+afterAll(() => {
+  closeDb();
+  _setDbPath(null);
+  rmSync(testDir, { recursive: true, force: true });
+});
+
+/**
+ * Run the fryler CLI as it runs inside the container. A REPL gets `input`
+ * one line per "fryler> " prompt, as if typed, then /quit.
+ */
+async function fryler(args: string[], input: string[] = []): Promise<void> {
+  const proc = Bun.spawn(["bun", cli, ...args], {
+    env: {
+      ...process.env,
+      HOME: testDir,
+      FRYLER_CONTAINER: "1",
+      PATH: `${binDir}:${process.env.PATH}`,
+    },
+    stdin: "pipe",
+    stdout: "pipe",
+    stderr: "pipe",
+  });
+  const timer = setTimeout(() => proc.kill(), 30_000);
+
+  const lines = [...input, "/quit"];
+  const decoder = new TextDecoder();
+  let output = "";
+  let typed = 0;
+  for await (const chunk of proc.stdout) {
+    output += decoder.decode(chunk);
+    const prompts = output.split("fryler> ").length - 1;
+    for (; typed < prompts && typed < lines.length; typed++) {
+      proc.stdin.write(`${lines[typed]}\n`);
+      proc.stdin.flush();
+    }
+  }
+
+  const exitCode = await proc.exited;
+  clearTimeout(timer);
+  if (exitCode !== 0) {
+    const stderr = await new Response(proc.stderr).text();
+    throw new Error(`fryler ${args.join(" ")} failed: ${stderr}`);
+  }
+}
+
+function prompts(claudeSessionId: string): string[] {
+  return listMessages(getSession(claudeSessionId)!.id)
+    .filter((m) => m.role === "user")
+    .map((m) => m.content);
+}
+
+function calls(): string[] {
+  return readFileSync(callLog, "utf8").trim().split("\n");
+}
+
+describe("auto-resume", () => {
+  test("ask, chat and voice each resume their own session", async () => {
+    await fryler(["ask", "first question"]);
+    await fryler(["chat"], ["hello chat"]);
+    await fryler(["voice"], ["hello voice"]);
+    await fryler(["ask", "follow-up question"]);
+    await fryler(["chat"], ["back to chat"]);
+    await fryler(["voice"], ["back to voice"]);
+    await fryler(["ask", "--new", "unrelated question"]);
+    await fryler(["ask", "third question"]);
+
+    expect(calls()).toEqual(["new", "new", "new", "new-1", "new-2", "new-3", "new", "new-4"]);
+
+    expect(getSession("new-1")?.kind).toBe("cli");
+    expect(getSession("new-2")?.kind).toBe("chat");
+    expect(getSession("new-3")?.kind).toBe("voice");
+    expect(getSession("new-4")?.kind).toBe("cli");
+
+    expect(prompts("new-1")).toEqual(["first question", "follow-up question"]);
+    expect(prompts("new-2")).toEqual(["hello chat", "back to chat"]);
+    expect(prompts("new-3")).toEqual(["hello voice", "back to voice"]);
+    expect(prompts("new-4")).toEqual(["unrelated question", "third question"]);
+    expect(getSession("new-2")?.message_count).toBe(2);
+  });
+});
+
+describe("forking", () => {
+  test("a fork branches off without moving the main thread", async () => {
+    const before = calls().length;
+    await fryler(["sessions", "fork", "new-2"], ["what if we went by train"]);
+    await fryler(["chat"], ["back on the main thread"]);
+    await fryler(["resume", "fork-1"], ["train it is", "/fork", "or by ferry", "and then?"]);
+
+    expect(calls().slice(before)).toEqual([
+      "fork:new-2",
+      "new-2",
+      "fork-1",
+      "fork:fork-1",
+      "fork-2",
+    ]);
+
+    const main = getSession("new-2")!;
+    const fork = getSession("fork-1")!;
+    expect(fork).toMatchObject({ kind: "chat", parent_session_id: main.id });
+    expect(fork.title).toBe("hello chat (fork)");
+    expect(getSession("fork-2")?.parent_session_id).toBe(fork.id);
+
+    expect(prompts("new-2")).toEqual(["hello chat", "back to chat", "back on the main thread"]);
+    expect(prompts("fork-1")).toEqual(["what if we went by train", "train it is"]);
+    expect(prompts("fork-2")).toEqual(["or by ferry", "and then?"]);
+  });
+});
@@ -0,0 +1,202 @@
+import { describe, expect, test, beforeEach, beforeAll, afterAll } from "bun:test";
+import { join } from "path";
+import { tmpdir } from "os";
+import { mkdtempSync, rmSync, unlinkSync } from "fs";
+import { closeDb, getDb, _setDbPath } from "@/db/index.ts";
+import {
+  createMemory,
+  forgetMemory,
+  getMemory,
+  listMemories,
+  updateMemory,
+} from "@/db/memories.ts";
+import { appendMemory, readMemory, _setIdentityDir } from "@/memory/index.ts";
+import { syncMemoryFile, hasSyncChanges, MEMORY_FILE_SOURCE } from "@/memory/sync.ts";
+
+const testDir = mkdtempSync(join(tmpdir(), "fryler-sync-test-"));
+const memoryPath = join(testDir, "MEMORY.md");
+
+beforeAll(() => {
+  _setDbPath(join(testDir, "fryler.db"));
+  _setIdentityDir(testDir);
+});
+
+beforeEach(async () => {
+  getDb().exec("DELETE FROM memories");
+  await Bun.write(memoryPath, "# Fryler — Memory\n\n## Preferences\n\n## People\n");
+});
+
+afterAll(() => {
+  closeDb();
+  _setDbPath(null);
+  _setIdentityDir(null);
+  rmSync(testDir, { recursive: true, force: true });
+});
+
+/** Rewrite MEMORY.md by hand, as a user would. */
+async function editFile(change: (text: string) => string): Promise<void> {
+  await Bun.write(memoryPath, change(await readMemory()));
+}
+
+async function remembered(category: string, content: string) {
+  const memory = createMemory(category, content, "test");
+  await appendMemory(memory);
+  return memory;
+}
+
+describe("syncMemoryFile", () => {
+  test("a file and database already in step need no changes", async () => {
+    await remembered("preference", "Likes the window seat");
+    const report = await syncMemoryFile();
+    expect(hasSyncChanges(report)).toBe(false);
+    expect(report.conflicts).toEqual([]);
+  });
+
+  test("the first sync links, adds and tags entries on both sides", async () => {
+    await editFile((text) =>
+      text
+        .replace("## Preferences\n", "## Preferences\n\n- Prefers tea over coffee\n")
+        .replace("## People\n", "## People\n\n- Leela is the captain\n"),
+    );
+    const tea = createMemory("preference", "Prefers tea over coffee", "repl");
+    const boiler = createMemory("fact", "The boiler was serviced in March", "repl");
+
+    const report = await syncMemoryFile();
+    expect(report.linked).toEqual([tea.id]);
+    expect(report.dbAdded).toHaveLength(1);
+    expect(report.fileAdded).toEqual([boiler.id]);
+
+    const leela = getMemory(report.dbAdded[0]!)!;
+    expect(leela.category).toBe("person");
+    expect(leela.content).toBe("Leela is the captain");
+    expect(leela.source).toBe(MEMORY_FILE_SOURCE);
+
+    const text = await readMemory();
+    expect(text).toContain(`- Prefers tea over coffee <!-- mem:${tea.id} -->`);
+    expect(text).toContain(`- Leela is the captain <!-- mem:${leela.id} -->`);
+    expect(text).toContain(
+      `## Facts\n\n- The boiler was serviced in March <!-- mem:${boiler.id} -->`,
+    );
+
+    expect(hasSyncChanges(await syncMemoryFile())).toBe(false);
+  });
+
+  test("an entry edited in the file updates the memory", async () => {
+    const seat = await remembered("preference", "Likes the window seat");
+    await editFile((text) => text.replace("window seat", "aisle seat"));
+
+    const report = await syncMemoryFile();
+    expect(report.dbUpdated).toEqual([seat.id]);
+    expect(getMemory(seat.id)?.content).toBe("Likes the aisle seat");
+    expect(hasSyncChanges(await syncMemoryFile())).toBe(false);
+  });
+
+  test("a memory edited in the database rewrites its entry", async () => {
+    const seat = await remembered("preference", "Likes the window seat");
+    updateMemory(seat.id, { content: "Likes the aisle seat" });
+
+    const report = await syncMemoryFile();
+    expect(report.fileUpdated).toEqual([seat.id]);
+    expect(await readMemory()).toContain(`- Likes the aisle seat <!-- mem:${seat.id} -->`);
+  });
+
+  test("moving an entry to another section changes its category", async () => {
+    const leela = await remembered("preference", "Leela is the captain");
+    await editFile((text) =>
+      text
+        .replace(`\n- Leela is the captain <!-- mem:${leela.id} -->\n`, "\n")
+        .replace("## People\n", `## People\n\n- Leela is the captain <!-- mem:${leela.id} -->\n`),
+    );
+
+    const report = await syncMemoryFile();
+    expect(report.dbUpdated).toEqual([leela.id]);
+    expect(getMemory(leela.id)?.category).toBe("person");
+  });
+
+  test("an entry deleted from the file forgets the memory", async () => {
+    const seat = await remembered("preference", "Likes the window seat");
+    await editFile((text) => text.replace(`- Likes the window seat <!-- mem:${seat.id} -->\n`, ""));
+
+    const report = await syncMemoryFile();
+    expect(report.dbForgotten).toEqual([seat.id]);
+    expect(getMemory(seat.id)?.forgotten_at).not.toBeNull();
+    expect(listMemories()).toHaveLength(0);
+  });
+
+  test("a missing or sectionless file forgets nothing", async () => {
+    const seat = await remembered("preference", "Likes the window seat");
+
+    unlinkSync(memoryPath);
+    expect(hasSyncChanges(await syncMemoryFile())).toBe(false);
+    await Bun.write(memoryPath, "Scribbled over by hand\n");
+    expect(hasSyncChanges(await syncMemoryFile())).toBe(false);
+
+    expect(getMemory(seat.id)?.forgotten_at).toBeNull();
+  });
+
+  test("a deleted or forgotten memory is removed from the file", async () => {
+    const seat = await remembered("preference", "Likes the window seat");
+    const leela = await remembered("person", "Leela is the captain");
+    getDb().prepare("DELETE FROM memories WHERE id = ?").run(seat.id);
+    forgetMemory(leela.id);
+
+    const report = await syncMemoryFile();
+    expect(report.fileRemoved.sort()).toEqual([seat.id, leela.id].sort());
+    const text = await readMemory();
+    expect(text).not.toContain("window seat");
+    expect(text).not.toContain("Leela");
+  });
+
+  test("changes on both sides are reported and left alone", async () => {
+    const seat = await remembered("preference", "Likes the window seat");
+    updateMemory(seat.id, { content: "Likes the aisle seat" });
+    await editFile((text) => text.replace("window seat", "front row"));
+
+    const report = await syncMemoryFile();
+    expect(hasSyncChanges(report)).toBe(false);
+    expect(report.conflicts).toEqual([
+      {
+        id: seat.id,
+        reason: "changed in both MEMORY.md and the database since the last sync",
+        file: "Likes the front row",
+        db: "Likes the aisle seat",
+      },
+    ]);
+    expect(getMemory(seat.id)?.content).toBe("Likes the aisle seat");
+    expect(await readMemory()).toContain("Likes the front row");
+
+    // Making the two sides agree resolves it
+    await editFile((text) => text.replace("front row", "aisle seat"));
+    expect((await syncMemoryFile()).conflicts).toEqual([]);
+  });
+
+  test("a deleted entry whose memory changed is a conflict", async () => {
+    const seat = await remembered("preference", "Likes the window seat");
+    updateMemory(seat.id, { content: "Likes the aisle seat" });
+    await editFile((text) => text.replace(`- Likes the window seat <!-- mem:${seat.id} -->\n`, ""));
+
+    const report = await syncMemoryFile();
+    expect(report.dbForgotten).toEqual([]);
+    expect(report.conflicts.map((c) => [c.id, c.file])).toEqual([[seat.id, null]]);
+    expect(getMemory(seat.id)?.forgotten_at).toBeNull();
+  });
+
+  test("a repeated id tag is a conflict", async () => {
+    const seat = await remembered("preference", "Likes the window seat");
+    await editFile((text) =>
+      text.replace("## People\n", `## People\n\n- Likes the window seat <!-- mem:${seat.id} -->\n`),
+    );
+
+    const report = await syncMemoryFile();
+    expect(report.conflicts.map((c) => c.id)).toEqual([seat.id]);
+    expect(listMemories()).toHaveLength(1);
+  });
+
+  test("multi-line entries keep their continuation lines", async () => {
+    const note = await remembered("note", "Packing list:\nsunscreen\nhat");
+    expect(await readMemory()).toContain(
+      `- Packing list:\n  sunscreen\n  hat <!-- mem:${note.id} -->`,
+    );
+    expect(hasSyncChanges(await syncMemoryFile())).toBe(false);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, test, beforeAll, afterAll, spyOn } from "bun:test";
+import { join } from "path";
+import { unlinkSync } from "fs";
+import { closeDb, _setDbPath } from "@/db/index.ts";
+import { getDueTasks, getTaskDependencies } from "@/db/tasks.ts";
+import { createTasksFromMarkers } from "@/tasks/create.ts";
+import { parseClaudeResponse } from "@/tasks/parser.ts";
+import { logger } from "@/logger/index.ts";
+
+const TEST_DB_PATH = join("/tmp", `fryler-task-create-test-${Date.now()}.db`);
+
+beforeAll(() => {
+  _setDbPath(TEST_DB_PATH);
+});
+
+afterAll(() => {
+  closeDb();
+  try {
+    unlinkSync(TEST_DB_PATH);
+    unlinkSync(TEST_DB_PATH + "-wal");
+    unlinkSync(TEST_DB_PATH + "-shm");
+  } catch {
+    // ignore cleanup errors
+  }
+  _setDbPath(null);
+});
+
+describe("createTasksFromMarkers", () => {
+  test("wires sibling refs into a dependency chain", () => {
+    const parsed = parseClaudeResponse(
+      [
+        '<!-- FRYLER_TASK: {"title": "Open PR", "depends_on": ["test"]} -->',
+        '<!-- FRYLER_TASK: {"title": "Clone repo", "ref": "clone"} -->',
+        '<!-- FRYLER_TASK: {"title": "Run tests", "ref": "test", "depends_on": ["clone"]} -->',
+      ].join("\n"),
+    );
+    const [pr, clone, tests] = createTasksFromMarkers(parsed.tasks);
+
+    expect(getTaskDependencies(pr!.id).map((t) => t.id)).toEqual([tests!.id]);
+    expect(getTaskDependencies(tests!.id).map((t) => t.id)).toEqual([clone!.id]);
+
+    const dueIds = getDueTasks().map((t) => t.id);
+    expect(dueIds).toContain(clone!.id);
+    expect(dueIds).not.toContain(tests!.id);
+    expect(dueIds).not.toContain(pr!.id);
+  });
+
+  test("ignores unknown refs and cycles but still creates the tasks", () => {
+    const warnSpy = spyOn(logger, "warn").mockImplementation(() => {});
+    const parsed = parseClaudeResponse(
+      [
+        '<!-- FRYLER_TASK: {"title": "A", "ref": "a", "depends_on": ["b", "missing"]} -->',
+        '<!-- FRYLER_TASK: {"title": "B", "ref": "b", "depends_on": ["a"]} -->',
+      ].join("\n"),
+    );
+    const [a, b] = createTasksFromMarkers(parsed.tasks);
+
+    expect(getTaskDependencies(a!.id).map((t) => t.id)).toEqual([b!.id]);
+    expect(getTaskDependencies(b!.id)).toEqual([]);
+    expect(warnSpy).toHaveBeenCalled();
+    warnSpy.mockRestore();
+  });
+
+  test("creates nothing when one of the tasks cannot be created", () => {
+    const before = getDueTasks().length;
+    const parsed = parseClaudeResponse(
+      ['<!-- FRYLER_TASK: {"title": "Fine"} -->', '<!-- FRYLER_TASK: {"title": "Broken"} -->'].join(
+        "\n",
+      ),
+    );
+    // The parser drops bad cron expressions, so break one after parsing
+    parsed.tasks[1]!.recurrence = "sometimes";
+
+    expect(() => createTasksFromMarkers(parsed.tasks)).toThrow();
+    expect(getDueTasks().length).toBe(before);
+  });
+});
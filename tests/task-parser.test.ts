@@ -369,6 +369,68 @@ describe("parseClaudeResponse", () => {
   });
 });
 
+describe("Task recurrence", () => {
+  test("parses a valid recurrence", () => {
+    const raw = '<!-- FRYLER_TASK: {"title": "Glucose", "recurrence": "0 8 * * *"} -->';
+    const result = parseClaudeResponse(raw);
+    expect(result.tasks[0]!.recurrence).toBe("0 8 * * *");
+  });
+
+  test("defaults recurrence to null when missing", () => {
+    const raw = '<!-- FRYLER_TASK: {"title": "Once"} -->';
+    const result = parseClaudeResponse(raw);
+    expect(result.tasks[0]!.recurrence).toBeNull();
+  });
+
+  test("drops an invalid recurrence but keeps the task", () => {
+    const warnSpy = spyOn(logger, "warn").mockImplementation(() => {});
+    const raw = '<!-- FRYLER_TASK: {"title": "Odd", "recurrence": "every tuesday"} -->';
+    const result = parseClaudeResponse(raw);
+    expect(result.tasks).toHaveLength(1);
+    expect(result.tasks[0]!.recurrence).toBeNull();
+    warnSpy.mockRestore();
+  });
+
+  test("drops a recurrence that never occurs but keeps the task", () => {
+    const warnSpy = spyOn(logger, "warn").mockImplementation(() => {});
+    const raw = '<!-- FRYLER_TASK: {"title": "Leap", "recurrence": "0 0 31 2 *"} -->';
+    const result = parseClaudeResponse(raw);
+    expect(result.tasks).toHaveLength(1);
+    expect(result.tasks[0]!.recurrence).toBeNull();
+    warnSpy.mockRestore();
+  });
+});
+
+describe("Task dependencies", () => {
+  test("parses ref and depends_on", () => {
+    const raw = [
+      '<!-- FRYLER_TASK: {"title": "Clone", "ref": "clone"} -->',
+      '<!-- FRYLER_TASK: {"title": "Test", "ref": "test", "depends_on": ["clone"]} -->',
+    ].join("\n");
+    const result = parseClaudeResponse(raw);
+    expect(result.tasks[0]!.ref).toBe("clone");
+    expect(result.tasks[0]!.depends_on).toEqual([]);
+    expect(result.tasks[1]!.depends_on).toEqual(["clone"]);
+  });
+
+  test("accepts a single depends_on value and existing task ids", () => {
+    const single = parseClaudeResponse('<!-- FRYLER_TASK: {"title": "A", "depends_on": "x"} -->');
+    expect(single.tasks[0]!.depends_on).toEqual(["x"]);
+
+    const ids = parseClaudeResponse(
+      '<!-- FRYLER_TASK: {"title": "B", "depends_on": [12, "y"]} -->',
+    );
+    expect(ids.tasks[0]!.depends_on).toEqual([12, "y"]);
+  });
+
+  test("drops invalid depends_on entries", () => {
+    const raw = '<!-- FRYLER_TASK: {"title": "C", "depends_on": ["", null, 1.5, {}]} -->';
+    const result = parseClaudeResponse(raw);
+    expect(result.tasks[0]!.ref).toBeNull();
+    expect(result.tasks[0]!.depends_on).toEqual([]);
+  });
+});
+
 describe("SAY markers", () => {
   test("extracts a single SAY marker", () => {
     const raw = ["Sure, I'll say that.", '<!-- FRYLER_SAY: {"text": "Hello world"} -->'].join("\n");
@@ -472,3 +534,73 @@ describe("SAY markers", () => {
     expect(result.says[0]!.voice).toBe("Samantha");
   });
 });
+
+describe("MEMORY_UPDATE and FORGET markers", () => {
+  test("extracts updates and forgets by id or match", () => {
+    const raw = [
+      "Noted, you've moved on from Vim.",
+      '<!-- FRYLER_MEMORY_UPDATE: {"match": "uses Vim", "content": "Uses Neovim", "reason": "Switched"} -->',
+      '<!-- FRYLER_FORGET: {"id": 12, "category": "project"} -->',
+    ].join("\n");
+    const result = parseClaudeResponse(raw);
+    expect(result.memoryUpdates).toEqual([
+      { id: null, match: "uses Vim", category: null, content: "Uses Neovim", reason: "Switched" },
+    ]);
+    expect(result.forgets).toEqual([{ id: 12, match: null, category: "project", reason: null }]);
+    expect(result.memories).toHaveLength(0);
+    expect(result.cleanText).toBe("Noted, you've moved on from Vim.");
+  });
+
+  test("skips markers that name no memory or an update without content", () => {
+    const warnSpy = spyOn(logger, "warn").mockImplementation(() => {});
+    const raw = [
+      '<!-- FRYLER_FORGET: {"reason": "which one?"} -->',
+      '<!-- FRYLER_FORGET: {"id": -1, "match": "  "} -->',
+      '<!-- FRYLER_MEMORY_UPDATE: {"id": 3} -->',
+      "<!-- FRYLER_MEMORY_UPDATE: {bad json} -->",
+    ].join("\n");
+    const result = parseClaudeResponse(raw);
+    expect(result.forgets).toHaveLength(0);
+    expect(result.memoryUpdates).toHaveLength(0);
+    expect(result.cleanText).toBe("");
+    warnSpy.mockRestore();
+  });
+
+  test("an update marker is not read as a MEMORY marker", () => {
+    const raw = '<!-- FRYLER_MEMORY_UPDATE: {"id": 3, "content": "New text"} -->';
+    const result = parseClaudeResponse(raw);
+    expect(result.memories).toHaveLength(0);
+    expect(result.memoryUpdates).toHaveLength(1);
+  });
+});
+
+describe("Memory expiry", () => {
+  test("reads expires_at and ttl from MEMORY markers", () => {
+    const raw = [
+      '<!-- FRYLER_MEMORY: {"category": "fact", "content": "Travelling", "expires_at": "2025-03-07T23:59:00"} -->',
+      '<!-- FRYLER_MEMORY: {"category": "fact", "content": "Staging is down", "ttl": "12h"} -->',
+      '<!-- FRYLER_MEMORY: {"category": "fact", "content": "Cat is named Fry"} -->',
+    ].join("\n");
+    const result = parseClaudeResponse(raw);
+    expect(result.memories.map((m) => [m.expires_at, m.ttl])).toEqual([
+      ["2025-03-07T23:59:00", null],
+      [null, "12h"],
+      [null, null],
+    ]);
+  });
+
+  test("ignores an unreadable expiry but keeps the memory", () => {
+    const warnSpy = spyOn(logger, "warn").mockImplementation(() => {});
+    const raw = [
+      '<!-- FRYLER_MEMORY: {"category": "fact", "content": "Travelling", "expires_at": "next Friday"} -->',
+      '<!-- FRYLER_MEMORY: {"category": "fact", "content": "Staging is down", "ttl": "a while"} -->',
+    ].join("\n");
+    const result = parseClaudeResponse(raw);
+    expect(result.memories.map((m) => [m.content, m.expires_at, m.ttl])).toEqual([
+      ["Travelling", null, null],
+      ["Staging is down", null, null],
+    ]);
+    expect(warnSpy).toHaveBeenCalledTimes(2);
+    warnSpy.mockRestore();
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, expect, test } from "bun:test";
+import { parseDuration, parseSince } from "@/time/index.ts";
+
+describe("parseDuration", () => {
+  test("parses each unit", () => {
+    expect(parseDuration("90s")).toBe(90_000);
+    expect(parseDuration("30m")).toBe(30 * 60_000);
+    expect(parseDuration("12h")).toBe(12 * 3_600_000);
+    expect(parseDuration("7d")).toBe(7 * 86_400_000);
+    expect(parseDuration("2w")).toBe(14 * 86_400_000);
+    expect(parseDuration("1.5h")).toBe(5_400_000);
+  });
+
+  test("rejects anything else", () => {
+    expect(() => parseDuration("7")).toThrow("Invalid duration");
+    expect(() => parseDuration("d7")).toThrow("Invalid duration");
+    expect(() => parseDuration("7 days")).toThrow("Invalid duration");
+  });
+});
+
+describe("parseSince", () => {
+  const now = new Date("2025-03-10T12:00:00Z");
+
+  test("treats a duration as time back from now", () => {
+    expect(parseSince("2d", now).toISOString()).toBe("2025-03-08T12:00:00.000Z");
+  });
+
+  test("reads a date as local midnight", () => {
+    expect(parseSince("2025-03-01", now).getTime()).toBe(new Date(2025, 2, 1).getTime());
+  });
+
+  test("accepts a datetime", () => {
+    expect(parseSince("2025-03-01T08:30:00Z", now).toISOString()).toBe("2025-03-01T08:30:00.000Z");
+  });
+
+  test("rejects garbage", () => {
+    expect(() => parseSince("last tuesday", now)).toThrow("Invalid --since");
+    expect(() => parseSince("2025-02-30", now)).toThrow("Invalid --since");
+  });
+});